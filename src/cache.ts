@@ -0,0 +1,188 @@
+import fs from "node:fs";
+import { CacheConfig, CacheKind } from "./config.js";
+
+// --- ZObject cache ---
+//
+// An in-memory LRU of fetched ZObjects and search results, optionally
+// mirrored to a JSON file so that it survives restarts. Entries expire after a
+// per-kind TTL; expired entries that carry a page revision can be revalidated
+// cheaply by comparing revisions instead of refetching the object.
+
+export interface CacheEntry {
+  value: any;
+  kind: CacheKind;
+  storedAt: number;
+  expiresAt: number;
+  revision?: number;
+}
+
+export interface CacheStatus {
+  entries: number;
+  maxEntries: number;
+  byKind: Record<CacheKind, number>;
+  hits: number;
+  misses: number;
+  revalidated: number;
+  ttlSeconds: Record<CacheKind, number>;
+  file: string | null;
+}
+
+const SAVE_DELAY_MS = 1000;
+
+export class ZObjectCache {
+  private entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+  private revalidated = 0;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly options: CacheConfig) {
+    if (options.file) {
+      this.load(options.file);
+    }
+  }
+
+  /** Returns the value if it is cached and fresh. */
+  get(key: string): any | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.misses++;
+      return undefined;
+    }
+    this.touch(key, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  /** Returns the entry even if it has expired, without counting a hit or miss. */
+  peek(key: string): CacheEntry | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, value: any, kind: CacheKind, revision?: number): void {
+    const now = Date.now();
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      kind,
+      storedAt: now,
+      expiresAt: now + this.options.ttlSeconds[kind] * 1000,
+      revision,
+    });
+    this.evict();
+    this.scheduleSave();
+  }
+
+  /** Extends the lifetime of an expired entry whose revision is unchanged. */
+  revalidate(key: string): any | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    entry.expiresAt = Date.now() + this.options.ttlSeconds[entry.kind] * 1000;
+    this.touch(key, entry);
+    this.revalidated++;
+    this.scheduleSave();
+    return entry.value;
+  }
+
+  /**
+   * Removes entries. Without arguments the whole cache is cleared; otherwise
+   * only entries of the given kind and/or with the given keys.
+   */
+  clear(filter: { kind?: CacheKind; keys?: string[] } = {}): number {
+    let removed = 0;
+    for (const [key, entry] of Array.from(this.entries)) {
+      if (filter.kind && entry.kind !== filter.kind) continue;
+      if (filter.keys && !filter.keys.includes(key)) continue;
+      this.entries.delete(key);
+      removed++;
+    }
+    if (!filter.kind && !filter.keys) {
+      this.hits = 0;
+      this.misses = 0;
+      this.revalidated = 0;
+    }
+    this.scheduleSave();
+    return removed;
+  }
+
+  status(): CacheStatus {
+    const byKind: Record<CacheKind, number> = {
+      function: 0,
+      type: 0,
+      implementation: 0,
+      search: 0,
+      other: 0,
+    };
+    for (const entry of this.entries.values()) {
+      byKind[entry.kind]++;
+    }
+    return {
+      entries: this.entries.size,
+      maxEntries: this.options.maxEntries,
+      byKind,
+      hits: this.hits,
+      misses: this.misses,
+      revalidated: this.revalidated,
+      ttlSeconds: this.options.ttlSeconds,
+      file: this.options.file ?? null,
+    };
+  }
+
+  /** Writes pending changes to the cache file right away. */
+  flush(): void {
+    if (!this.options.file) return;
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    try {
+      fs.writeFileSync(this.options.file, this.serialize());
+    } catch (error: any) {
+      console.error(`Could not write cache file ${this.options.file}: ${error?.message || String(error)}`);
+    }
+  }
+
+  private serialize(): string {
+    return JSON.stringify({ entries: Object.fromEntries(this.entries) });
+  }
+
+  private touch(key: string, entry: CacheEntry): void {
+    // Re-inserting moves the key to the most recently used end of the map.
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+  }
+
+  private evict(): void {
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  private load(file: string): void {
+    if (!fs.existsSync(file)) return;
+    try {
+      const stored = JSON.parse(fs.readFileSync(file, "utf8"));
+      for (const [key, entry] of Object.entries<CacheEntry>(stored?.entries || {})) {
+        this.entries.set(key, entry);
+      }
+      this.evict();
+    } catch (error: any) {
+      console.error(`Ignoring unreadable cache file ${file}: ${error?.message || String(error)}`);
+    }
+  }
+
+  private scheduleSave(): void {
+    const file = this.options.file;
+    if (!file || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      fs.promises.writeFile(file, this.serialize()).catch((error) => {
+        console.error(`Could not write cache file ${file}: ${error?.message || String(error)}`);
+      });
+    }, SAVE_DELAY_MS);
+    // Pending writes should not keep the process alive.
+    this.saveTimer.unref();
+  }
+}
@@ -0,0 +1,252 @@
+import { argumentNames, buildFunctionCallTemplate, transformTemplateToFunctionCall } from "./templates.js";
+import { formatType, parseTypeExpression, ZType } from "./type-converter.js";
+import { getMultipleDetails } from "./wikifunctions-api.js";
+
+// --- Function composition ---
+//
+// A composition is a tree of function calls whose leaves are plain JSON
+// values. It can be written as an expression, e.g.
+//
+//   Z10012(Z10000("abc", "def"), 3)
+//
+// or as JSON: {"function": "Z10012", "args": [{"function": "Z10000", "args": ["abc", "def"]}, 3]}.
+// Arguments are positional, or an object keyed by argument key or name.
+
+export interface CallNode {
+  function: string;
+  args: unknown[] | Record<string, unknown>;
+}
+
+export interface ComposedCall {
+  call: any;
+  outputType: ZType;
+}
+
+const ZID_PATTERN = /^Z[1-9]\d*$/;
+
+export function isCallNode(value: unknown): value is CallNode {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    typeof (value as any).function === "string" &&
+    (value as any).Z1K1 === undefined
+  );
+}
+
+/** Parses the expression syntax into a call tree. */
+export function parseCallExpression(source: string): CallNode {
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`${message} at position ${pos + 1} of the expression.`);
+  };
+  const skipSpace = () => {
+    while (pos < source.length && /\s/.test(source[pos])) pos++;
+  };
+  const expect = (char: string) => {
+    skipSpace();
+    if (source[pos] !== char) fail(`Expected '${char}'`);
+    pos++;
+  };
+
+  function parseValue(allowCalls: boolean): unknown {
+    skipSpace();
+    const rest = source.slice(pos);
+
+    const zid = /^Z[1-9]\d*/.exec(rest);
+    if (zid) {
+      pos += zid[0].length;
+      skipSpace();
+      if (source[pos] !== "(") return zid[0]; // A bare ZID is a reference value.
+      if (!allowCalls) fail("Function calls are not allowed inside list or object literals");
+      pos++;
+      const args: unknown[] = [];
+      skipSpace();
+      if (source[pos] === ")") {
+        pos++;
+        return { function: zid[0], args };
+      }
+      for (;;) {
+        args.push(parseValue(true));
+        skipSpace();
+        if (source[pos] === ",") {
+          pos++;
+        } else if (source[pos] === ")") {
+          pos++;
+          return { function: zid[0], args };
+        } else {
+          fail("Expected ',' or ')'");
+        }
+      }
+    }
+
+    const string = /^"(?:[^"\\]|\\.)*"/.exec(rest);
+    if (string) {
+      pos += string[0].length;
+      return JSON.parse(string[0]);
+    }
+
+    const number = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(rest);
+    if (number) {
+      pos += number[0].length;
+      return Number(number[0]);
+    }
+
+    for (const [word, value] of [["true", true], ["false", false], ["null", null]] as const) {
+      if (rest.startsWith(word)) {
+        pos += word.length;
+        return value;
+      }
+    }
+
+    if (source[pos] === "[") {
+      pos++;
+      const items: unknown[] = [];
+      skipSpace();
+      if (source[pos] === "]") {
+        pos++;
+        return items;
+      }
+      for (;;) {
+        items.push(parseValue(false));
+        skipSpace();
+        if (source[pos] === ",") pos++;
+        else if (source[pos] === "]") {
+          pos++;
+          return items;
+        } else fail("Expected ',' or ']'");
+      }
+    }
+
+    if (source[pos] === "{") {
+      pos++;
+      const object: Record<string, unknown> = {};
+      skipSpace();
+      if (source[pos] === "}") {
+        pos++;
+        return object;
+      }
+      for (;;) {
+        skipSpace();
+        const key = /^"(?:[^"\\]|\\.)*"/.exec(source.slice(pos));
+        if (!key) fail("Expected a quoted key");
+        pos += key![0].length;
+        expect(":");
+        object[JSON.parse(key![0])] = parseValue(false);
+        skipSpace();
+        if (source[pos] === ",") pos++;
+        else if (source[pos] === "}") {
+          pos++;
+          return object;
+        } else fail("Expected ',' or '}'");
+      }
+    }
+
+    return fail("Unexpected input");
+  }
+
+  const root = parseValue(true);
+  skipSpace();
+  if (pos < source.length) fail("Unexpected trailing input");
+  if (!isCallNode(root)) {
+    throw new Error("The expression must be a function call, e.g. Z10000(\"a\", \"b\").");
+  }
+  return root;
+}
+
+function collectFunctionZids(node: CallNode, zids: Set<string> = new Set()): Set<string> {
+  zids.add(node.function);
+  const args = Array.isArray(node.args) ? node.args : Object.values(node.args || {});
+  for (const arg of args) {
+    if (isCallNode(arg)) collectFunctionZids(arg, zids);
+  }
+  return zids;
+}
+
+function typesCompatible(provided: ZType, required: ZType): boolean {
+  // Z1 (Object) accepts, and is accepted as, anything.
+  if (provided === "Z1" || required === "Z1") return true;
+  return formatType(provided) === formatType(required);
+}
+
+/**
+ * Resolves every function in the tree, checks that the output type of each
+ * inner call matches the argument type it is passed to, and builds a single
+ * nested Z7 call. All type errors are reported together.
+ */
+export async function composeCall(root: CallNode): Promise<ComposedCall> {
+  const functionZids = Array.from(collectFunctionZids(root));
+  for (const zid of functionZids) {
+    if (!ZID_PATTERN.test(zid)) throw new Error(`'${zid}' is not a valid function ZID.`);
+  }
+
+  const details = await getMultipleDetails(functionZids);
+  const templates: Record<string, any> = {};
+  for (const zid of functionZids) {
+    if (details[zid]?.Z2K2?.Z1K1 !== "Z8") {
+      throw new Error(details[zid] ? `${zid} is not a function.` : `Function ${zid} was not found.`);
+    }
+    const template = await buildFunctionCallTemplate(details[zid]);
+    if (template?.error) throw new Error(`${zid}: ${template.error}`);
+    templates[zid] = template;
+  }
+
+  const errors: string[] = [];
+
+  async function build(node: CallNode, path: string): Promise<ComposedCall> {
+    const template = templates[node.function];
+    const argKeys = Object.keys(template).filter((key) => key.startsWith(`${node.function}K`));
+    const values: Record<string, unknown> = {};
+
+    if (Array.isArray(node.args)) {
+      if (node.args.length !== argKeys.length) {
+        errors.push(
+          `${path}: ${node.function} (${template._function_name}) takes ${argKeys.length} argument(s), got ${node.args.length}.`
+        );
+      }
+      node.args.slice(0, argKeys.length).forEach((arg, index) => {
+        values[argKeys[index]] = arg;
+      });
+    } else {
+      for (const [name, arg] of Object.entries(node.args || {})) {
+        const key =
+          argKeys.find((k) => k === name || k === `${node.function}${name}` || argumentNames(template[k]).includes(name)) ?? name;
+        if (!argKeys.includes(key)) {
+          errors.push(`${path}: ${node.function} (${template._function_name}) has no argument '${name}'.`);
+          continue;
+        }
+        values[key] = arg;
+      }
+    }
+
+    for (const key of argKeys) {
+      const arg = values[key];
+      if (!isCallNode(arg)) continue;
+      const inner = await build(arg, `${path} → ${key}`);
+      const requiredType = template[key].required_type;
+      const innerTemplate = templates[arg.function];
+      const required = parseTypeExpression(String(requiredType));
+      if (required && !typesCompatible(inner.outputType, required)) {
+        errors.push(
+          `${path} → ${key}: ${arg.function} (${innerTemplate._function_name}) returns ${formatType(inner.outputType)}, but '${template[key].name}' of ${node.function} expects ${requiredType}.`
+        );
+      }
+      values[key] = inner.call;
+    }
+
+    let call: any = { Z1K1: "Z7", Z7K1: node.function };
+    try {
+      call = await transformTemplateToFunctionCall(template, values);
+    } catch (error: any) {
+      errors.push(`${path}: ${error?.message || String(error)}`);
+    }
+    return { call, outputType: template._output_type };
+  }
+
+  const composed = await build(root, root.function);
+  if (errors.length > 0) {
+    throw new Error(`The composition is not valid:\n- ${errors.join("\n- ")}`);
+  }
+  return composed;
+}
@@ -0,0 +1,353 @@
+import fs from "node:fs";
+
+// --- Configuration ---
+//
+// Settings are resolved in this order (later sources win):
+//   1. the built-in defaults of the selected profile
+//   2. the profile entry and top-level overrides of the JSON config file
+//   3. WIKIFUNCTIONS_* environment variables
+//   4. command line flags
+
+export interface WikifunctionsProfile {
+  apiUrl: string;
+  userAgent: string;
+  language: string;
+}
+
+export type CacheKind = "function" | "type" | "implementation" | "search" | "other";
+
+export interface CacheConfig {
+  file?: string;
+  maxEntries: number;
+  ttlSeconds: Record<CacheKind, number>;
+}
+
+export interface HistoryConfig {
+  /** Without a file every session keeps its own history in memory. */
+  file?: string;
+  maxEntries: number;
+}
+
+export interface HttpConfig {
+  timeoutSeconds: number;
+  /** Function calls can keep the orchestrator busy for much longer than reads. */
+  runTimeoutSeconds: number;
+  maxRetries: number;
+  /** Client-side rate limit; 0 disables it. */
+  requestsPerSecond: number;
+  burst: number;
+  /** Sent as the maxlag parameter; 0 leaves it out. */
+  maxlagSeconds: number;
+}
+
+export type TransportKind = "stdio" | "http";
+
+export interface ServerConfig {
+  transport: TransportKind;
+  host: string;
+  port: number;
+  /** Bearer token required by the HTTP transport; no authentication without it. */
+  authToken?: string;
+}
+
+export interface WikifunctionsConfig extends WikifunctionsProfile {
+  profile: string;
+  cache: CacheConfig;
+  history: HistoryConfig;
+  http: HttpConfig;
+  server: ServerConfig;
+}
+
+interface ConfigFile extends Partial<WikifunctionsProfile> {
+  profile?: string;
+  profiles?: Record<string, Partial<WikifunctionsProfile>>;
+  cache?: {
+    file?: string;
+    maxEntries?: number;
+    ttlSeconds?: Partial<Record<CacheKind, number>>;
+  };
+  history?: Partial<HistoryConfig>;
+  http?: Partial<HttpConfig>;
+  server?: Partial<ServerConfig>;
+}
+
+const DEFAULT_USER_AGENT = "MyWikiFunctionsTool/1.0";
+
+const BUILTIN_PROFILES: Record<string, WikifunctionsProfile> = {
+  prod: {
+    apiUrl: "https://www.wikifunctions.org/w/api.php",
+    userAgent: DEFAULT_USER_AGENT,
+    language: "en",
+  },
+  beta: {
+    apiUrl: "https://wikifunctions.beta.wmflabs.org/w/api.php",
+    userAgent: DEFAULT_USER_AGENT,
+    language: "en",
+  },
+  local: {
+    apiUrl: "http://localhost:8080/w/api.php",
+    userAgent: DEFAULT_USER_AGENT,
+    language: "en",
+  },
+};
+
+const DEFAULT_PROFILE = "prod";
+
+const DEFAULT_CACHE: CacheConfig = {
+  maxEntries: 1000,
+  ttlSeconds: {
+    function: 60 * 60,
+    type: 24 * 60 * 60,
+    implementation: 60 * 60,
+    search: 10 * 60,
+    other: 60 * 60,
+  },
+};
+
+const DEFAULT_HISTORY: HistoryConfig = {
+  maxEntries: 200,
+};
+
+const DEFAULT_HTTP: HttpConfig = {
+  timeoutSeconds: 30,
+  runTimeoutSeconds: 120,
+  maxRetries: 3,
+  requestsPerSecond: 5,
+  burst: 10,
+  maxlagSeconds: 5,
+};
+
+const DEFAULT_SERVER: ServerConfig = {
+  transport: "stdio",
+  host: "127.0.0.1",
+  port: 3333,
+};
+
+/**
+ * Parses `--name value` and `--name=value` flags into a map. Bare flags
+ * (followed by another flag or nothing) are recorded as "true".
+ */
+export function parseCliFlags(argv: string[]): Record<string, string> {
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) continue;
+
+    const eq = arg.indexOf("=");
+    if (eq !== -1) {
+      flags[arg.slice(2, eq)] = arg.slice(eq + 1);
+      continue;
+    }
+
+    const next = argv[i + 1];
+    if (next !== undefined && !next.startsWith("--")) {
+      flags[arg.slice(2)] = next;
+      i++;
+    } else {
+      flags[arg.slice(2)] = "true";
+    }
+  }
+  return flags;
+}
+
+function readConfigFile(path: string): ConfigFile {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(path, "utf8"));
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error("expected a JSON object");
+    }
+    return parsed;
+  } catch (error: any) {
+    throw new Error(`Could not read config file '${path}': ${error?.message || String(error)}`);
+  }
+}
+
+function pickProfileFields(source: Record<string, any> | undefined): Partial<WikifunctionsProfile> {
+  const picked: Partial<WikifunctionsProfile> = {};
+  if (!source) return picked;
+  for (const key of ["apiUrl", "userAgent", "language"] as const) {
+    if (typeof source[key] === "string" && source[key]) {
+      picked[key] = source[key];
+    }
+  }
+  return picked;
+}
+
+function parseNumber(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const num = Number(value);
+  if (!Number.isFinite(num) || num < 0) {
+    throw new Error(`Invalid value for ${name}: '${String(value)}' (expected a non-negative number)`);
+  }
+  return num;
+}
+
+/** Parses TTL overrides of the form "function=600,search=60". */
+function parseTtlList(value: string | undefined, name: string): Partial<Record<CacheKind, number>> {
+  const ttl: Partial<Record<CacheKind, number>> = {};
+  if (!value) return ttl;
+  for (const part of value.split(",")) {
+    const [kind, seconds] = part.split("=").map((s) => s.trim());
+    if (!(kind in DEFAULT_CACHE.ttlSeconds)) {
+      throw new Error(
+        `Invalid value for ${name}: unknown cache kind '${kind}' (expected one of ${Object.keys(DEFAULT_CACHE.ttlSeconds).join(", ")})`
+      );
+    }
+    ttl[kind as CacheKind] = parseNumber(seconds, name);
+  }
+  return ttl;
+}
+
+function resolveCacheConfig(
+  flags: Record<string, string>,
+  env: NodeJS.ProcessEnv,
+  file: ConfigFile
+): CacheConfig {
+  const withoutUndefined = <T extends object>(obj: T): Partial<T> =>
+    Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as Partial<T>;
+
+  return {
+    file: flags["cache-file"] || env.WIKIFUNCTIONS_CACHE_FILE || file.cache?.file,
+    maxEntries:
+      parseNumber(flags["cache-max-entries"], "--cache-max-entries") ??
+      parseNumber(env.WIKIFUNCTIONS_CACHE_MAX_ENTRIES, "WIKIFUNCTIONS_CACHE_MAX_ENTRIES") ??
+      parseNumber(file.cache?.maxEntries, "cache.maxEntries") ??
+      DEFAULT_CACHE.maxEntries,
+    ttlSeconds: {
+      ...DEFAULT_CACHE.ttlSeconds,
+      ...withoutUndefined(file.cache?.ttlSeconds || {}),
+      ...withoutUndefined(parseTtlList(env.WIKIFUNCTIONS_CACHE_TTL, "WIKIFUNCTIONS_CACHE_TTL")),
+      ...withoutUndefined(parseTtlList(flags["cache-ttl"], "--cache-ttl")),
+    },
+  };
+}
+
+function resolveHistoryConfig(
+  flags: Record<string, string>,
+  env: NodeJS.ProcessEnv,
+  file: ConfigFile
+): HistoryConfig {
+  return {
+    file: flags["history-file"] || env.WIKIFUNCTIONS_HISTORY_FILE || file.history?.file,
+    maxEntries:
+      parseNumber(flags["history-max-entries"], "--history-max-entries") ??
+      parseNumber(env.WIKIFUNCTIONS_HISTORY_MAX_ENTRIES, "WIKIFUNCTIONS_HISTORY_MAX_ENTRIES") ??
+      parseNumber(file.history?.maxEntries, "history.maxEntries") ??
+      DEFAULT_HISTORY.maxEntries,
+  };
+}
+
+function resolveHttpConfig(
+  flags: Record<string, string>,
+  env: NodeJS.ProcessEnv,
+  file: ConfigFile
+): HttpConfig {
+  const setting = (key: keyof HttpConfig, flag: string, envName: string): number =>
+    parseNumber(flags[flag], `--${flag}`) ??
+    parseNumber(env[envName], envName) ??
+    parseNumber(file.http?.[key], `http.${key}`) ??
+    DEFAULT_HTTP[key];
+
+  return {
+    timeoutSeconds: setting("timeoutSeconds", "timeout", "WIKIFUNCTIONS_TIMEOUT"),
+    runTimeoutSeconds: setting("runTimeoutSeconds", "run-timeout", "WIKIFUNCTIONS_RUN_TIMEOUT"),
+    maxRetries: setting("maxRetries", "max-retries", "WIKIFUNCTIONS_MAX_RETRIES"),
+    requestsPerSecond: setting("requestsPerSecond", "rate-limit", "WIKIFUNCTIONS_RATE_LIMIT"),
+    burst: setting("burst", "rate-burst", "WIKIFUNCTIONS_RATE_BURST"),
+    maxlagSeconds: setting("maxlagSeconds", "maxlag", "WIKIFUNCTIONS_MAXLAG"),
+  };
+}
+
+function resolveServerConfig(
+  flags: Record<string, string>,
+  env: NodeJS.ProcessEnv,
+  file: ConfigFile
+): ServerConfig {
+  const transport =
+    flags["transport"] || env.WIKIFUNCTIONS_TRANSPORT || file.server?.transport || DEFAULT_SERVER.transport;
+  if (transport !== "stdio" && transport !== "http") {
+    throw new Error(`Invalid transport '${transport}' (expected 'stdio' or 'http')`);
+  }
+
+  return {
+    transport,
+    host: flags["host"] || env.WIKIFUNCTIONS_HOST || file.server?.host || DEFAULT_SERVER.host,
+    port:
+      parseNumber(flags["port"], "--port") ??
+      parseNumber(env.WIKIFUNCTIONS_PORT, "WIKIFUNCTIONS_PORT") ??
+      parseNumber(file.server?.port, "server.port") ??
+      DEFAULT_SERVER.port,
+    authToken: flags["auth-token"] || env.WIKIFUNCTIONS_AUTH_TOKEN || file.server?.authToken,
+  };
+}
+
+export function loadConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): WikifunctionsConfig {
+  const flags = parseCliFlags(argv);
+
+  const configPath = flags["config"] || env.WIKIFUNCTIONS_CONFIG;
+  const file: ConfigFile = configPath ? readConfigFile(configPath) : {};
+
+  const profile =
+    flags["profile"] || env.WIKIFUNCTIONS_PROFILE || file.profile || DEFAULT_PROFILE;
+
+  const builtin = BUILTIN_PROFILES[profile];
+  const fromFileProfile = file.profiles?.[profile];
+  if (!builtin && !fromFileProfile) {
+    const known = [...Object.keys(BUILTIN_PROFILES), ...Object.keys(file.profiles || {})];
+    throw new Error(
+      `Unknown profile '${profile}'. Known profiles: ${Array.from(new Set(known)).join(", ")}`
+    );
+  }
+
+  const resolved: WikifunctionsProfile = {
+    ...BUILTIN_PROFILES[DEFAULT_PROFILE],
+    ...builtin,
+    ...pickProfileFields(fromFileProfile),
+    ...pickProfileFields(file),
+    ...pickProfileFields({
+      apiUrl: env.WIKIFUNCTIONS_API_URL,
+      userAgent: env.WIKIFUNCTIONS_USER_AGENT,
+      language: env.WIKIFUNCTIONS_LANGUAGE,
+    }),
+    ...pickProfileFields({
+      apiUrl: flags["api-url"],
+      userAgent: flags["user-agent"],
+      language: flags["language"],
+    }),
+  };
+
+  return {
+    profile,
+    ...resolved,
+    cache: resolveCacheConfig(flags, env, file),
+    history: resolveHistoryConfig(flags, env, file),
+    http: resolveHttpConfig(flags, env, file),
+    server: resolveServerConfig(flags, env, file),
+  };
+}
+
+let current: WikifunctionsConfig | undefined;
+
+/**
+ * Loads the configuration the server runs with; `main()` calls this before
+ * anything reads `config`.
+ */
+export function initConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): WikifunctionsConfig {
+  current = loadConfig(argv, env);
+  return current;
+}
+
+/**
+ * The active configuration. It is loaded on first access (from the process
+ * arguments and environment) unless `initConfig` ran before, so importing a
+ * module never parses flags or reads the config file.
+ */
+export const config: WikifunctionsConfig = new Proxy({} as WikifunctionsConfig, {
+  get: (_target, key) => (current ?? initConfig())[key as keyof WikifunctionsConfig],
+});
@@ -0,0 +1,298 @@
+import { config } from "./config.js";
+import { resolveLabels } from "./explain.js";
+import { ImplementationKind, implementationKind } from "./implementations.js";
+import { reportProgress } from "./request-context.js";
+import { getImplementations, getMultipleDetails, programmingLanguageOf } from "./wikifunctions-api.js";
+import { canonicalize, isReference, terminalValue } from "./zobject.js";
+
+// --- Function dependencies ---
+//
+// Starting from a function, the connected implementations (Z8K4) are fetched
+// level by level and every function called (Z7K1) in a composition (Z14K2)
+// becomes a dependency. Each function appears once, at the depth where it was
+// first reached, so the result is a DAG plus the calls that close cycles.
+
+export const DEFAULT_DEPENDENCY_DEPTH = 3;
+export const MAX_DEPENDENCY_DEPTH = 10;
+// Bounds the walk for functions that reach large parts of the catalogue.
+const MAX_FUNCTIONS = 200;
+
+export type DependencyStatus = "expanded" | "depth_limit" | "not_found" | "not_function";
+
+export interface DependencyImplementation {
+  zid: string;
+  label: string | null;
+  kind: ImplementationKind;
+  programmingLanguage?: string;
+  builtin?: string;
+  /** For compositions: the functions it calls, in order of first use. */
+  calls: string[];
+}
+
+export interface DependencyNode {
+  zid: string;
+  label: string | null;
+  /** The number of calls between the root and this function. */
+  depth: number;
+  /** "depth_limit" if its compositions call functions that were not followed. */
+  status: DependencyStatus;
+  implementations: DependencyImplementation[];
+}
+
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  /** The composition that makes the call. */
+  implementation: string;
+  /** Whether the call leads back to a function on the path from the root. */
+  cycle: boolean;
+}
+
+export interface DependencyGraph {
+  root: string;
+  maxDepth: number;
+  /** In the order they were reached, the root first. */
+  functions: DependencyNode[];
+  edges: DependencyEdge[];
+  /** Each cycle as a path of ZIDs that starts and ends with the same function. */
+  cycles: string[][];
+  warnings: string[];
+}
+
+/** The functions called anywhere in a composition, including calls in arguments. */
+export function calledFunctions(composition: any): string[] {
+  const calls = new Set<string>();
+  const visit = (node: any) => {
+    if (Array.isArray(node)) {
+      // The first element of a benjamin array is the item type.
+      node.slice(1).forEach(visit);
+    } else if (node && typeof node === "object") {
+      if (node.Z1K1 === "Z7" && isReference(node.Z7K1)) calls.add(node.Z7K1);
+      for (const [key, value] of Object.entries(node)) {
+        if (key !== "Z1K1") visit(value);
+      }
+    }
+  };
+  visit(canonicalize(composition));
+  return [...calls];
+}
+
+function describeImplementation(zid: string, implementation: any): DependencyImplementation {
+  const info: DependencyImplementation = { zid, label: null, kind: implementationKind(implementation), calls: [] };
+  if (info.kind === "code") {
+    info.programmingLanguage = programmingLanguageOf(implementation.Z14K3);
+  } else if (info.kind === "composition") {
+    info.calls = calledFunctions(implementation.Z14K2);
+  } else if (info.kind === "builtin") {
+    info.builtin = String(terminalValue(implementation.Z14K4));
+  }
+  return info;
+}
+
+/** Marks the edges that close a cycle and returns the cycles, found depth-first from the root. */
+function markCycles(root: string, edges: DependencyEdge[]): string[][] {
+  const outgoing = new Map<string, DependencyEdge[]>();
+  for (const edge of edges) {
+    outgoing.set(edge.from, [...(outgoing.get(edge.from) ?? []), edge]);
+  }
+
+  const cycles: string[][] = [];
+  const done = new Set<string>();
+  const path: string[] = [];
+  const visit = (zid: string) => {
+    path.push(zid);
+    const seen = new Set<string>();
+    for (const edge of outgoing.get(zid) ?? []) {
+      const onPath = path.indexOf(edge.to);
+      if (onPath >= 0) {
+        edge.cycle = true;
+        if (!seen.has(edge.to)) cycles.push([...path.slice(onPath), edge.to]);
+      } else if (!done.has(edge.to) && !seen.has(edge.to)) {
+        visit(edge.to);
+      }
+      seen.add(edge.to);
+    }
+    path.pop();
+    done.add(zid);
+  };
+  visit(root);
+  return cycles;
+}
+
+/**
+ * Walks the functions called by the compositions of `functionId`, following
+ * calls up to `maxDepth` levels down. Labels are given in `language`.
+ */
+export async function buildDependencyGraph(
+  functionId: string,
+  maxDepth: number = DEFAULT_DEPENDENCY_DEPTH,
+  language: string = config.language
+): Promise<DependencyGraph> {
+  const nodes = new Map<string, DependencyNode>();
+  const edges: DependencyEdge[] = [];
+  const warnings: string[] = [];
+  let truncated = false;
+
+  let frontier = [functionId];
+  for (let depth = 0; frontier.length > 0; depth++) {
+    await reportProgress(`Fetching ${frontier.length} function(s) at depth ${depth}`);
+    const details = await getMultipleDetails(frontier);
+    const functions: DependencyNode[] = [];
+    for (const zid of frontier) {
+      const node: DependencyNode = { zid, label: null, depth, status: "expanded", implementations: [] };
+      if (!details[zid]) {
+        node.status = "not_found";
+      } else if (terminalValue(details[zid]?.Z2K2?.Z1K1) !== "Z8") {
+        node.status = "not_function";
+      } else {
+        functions.push(node);
+      }
+      nodes.set(zid, node);
+    }
+
+    const implementationZids = new Map(functions.map((node) => [node.zid, getImplementations(details[node.zid])]));
+    const implementations = await getMultipleDetails([...implementationZids.values()].flat());
+
+    const next: string[] = [];
+    for (const node of functions) {
+      for (const zid of implementationZids.get(node.zid) ?? []) {
+        const implementation = implementations[zid]?.Z2K2;
+        if (!implementation) {
+          warnings.push(`Implementation ${zid} of ${node.zid} could not be fetched.`);
+          continue;
+        }
+        const info = describeImplementation(zid, implementation);
+        node.implementations.push(info);
+        if (info.calls.length === 0) continue;
+        if (depth >= maxDepth) {
+          node.status = "depth_limit";
+          continue;
+        }
+        for (const callee of info.calls) {
+          if (!nodes.has(callee) && !next.includes(callee)) {
+            if (nodes.size + next.length >= MAX_FUNCTIONS) {
+              node.status = "depth_limit";
+              truncated = true;
+              continue;
+            }
+            next.push(callee);
+          }
+          edges.push({ from: node.zid, to: callee, implementation: zid, cycle: false });
+        }
+      }
+    }
+    frontier = next;
+  }
+  if (truncated) {
+    warnings.push(`Stopped after ${MAX_FUNCTIONS} functions; some calls were not followed.`);
+  }
+
+  const functions = [...nodes.values()];
+  await reportProgress("Fetching labels");
+  const labels = (
+    await resolveLabels(
+      [...functions.map((node) => node.zid), ...functions.flatMap((node) => node.implementations.map((impl) => impl.zid))],
+      [],
+      language
+    )
+  ).zids;
+  for (const node of functions) {
+    node.label = labels[node.zid] ?? null;
+    for (const impl of node.implementations) impl.label = labels[impl.zid] ?? null;
+  }
+
+  const cycles = markCycles(functionId, edges);
+  return { root: functionId, maxDepth, functions, edges, cycles, warnings };
+}
+
+/** E.g. "2 compositions, code (javascript, python), built-in". */
+export function summarizeImplementations(node: DependencyNode): string {
+  switch (node.status) {
+    case "not_found":
+      return "not found";
+    case "not_function":
+      return "not a function";
+  }
+  if (node.implementations.length === 0) return "no connected implementations";
+
+  const byKind = (kind: ImplementationKind) => node.implementations.filter((impl) => impl.kind === kind);
+  const parts: string[] = [];
+  const compositions = byKind("composition").length;
+  if (compositions > 0) parts.push(compositions === 1 ? "composition" : `${compositions} compositions`);
+  const languages = Array.from(new Set(byKind("code").map((impl) => impl.programmingLanguage ?? "unknown")));
+  if (languages.length > 0) parts.push(`code (${languages.join(", ")})`);
+  if (byKind("builtin").length > 0) parts.push("built-in");
+  if (byKind("unknown").length > 0) parts.push("unknown");
+  return parts.join(", ");
+}
+
+function caption(node: DependencyNode): string {
+  return node.label ? `${node.zid} (${node.label})` : node.zid;
+}
+
+/**
+ * Renders the graph as an indented tree from the root. Functions reached
+ * again are listed once more without their calls.
+ */
+export function formatDependencyTree(graph: DependencyGraph): string {
+  const nodes = new Map(graph.functions.map((node) => [node.zid, node]));
+  const printed = new Set<string>();
+  const lines: string[] = [];
+  const visit = (zid: string, indent: string, path: string[]) => {
+    const node = nodes.get(zid);
+    if (!node) return;
+    const head = `${indent}- ${caption(node)}`;
+    if (path.includes(zid)) {
+      lines.push(`${head} ↻ cycle`);
+      return;
+    }
+    if (printed.has(zid)) {
+      lines.push(`${head} (see above)`);
+      return;
+    }
+    printed.add(zid);
+    const limit = node.status === "depth_limit" ? "; calls not followed (depth limit)" : "";
+    lines.push(`${head}: ${summarizeImplementations(node)}${limit}`);
+    const callees = Array.from(new Set(graph.edges.filter((edge) => edge.from === zid).map((edge) => edge.to)));
+    for (const callee of callees) visit(callee, `${indent}  `, [...path, zid]);
+  };
+  visit(graph.root, "", []);
+  return lines.join("\n");
+}
+
+function mermaidText(text: string): string {
+  return text.replace(/"/g, "#quot;").replace(/</g, "#lt;").replace(/>/g, "#gt;");
+}
+
+/**
+ * Renders the graph as a Mermaid flowchart. Edges are labelled with the
+ * compositions that make the call; calls that close a cycle are dotted.
+ */
+export function toMermaid(graph: DependencyGraph): string {
+  const lines = ["graph TD"];
+  for (const node of graph.functions) {
+    lines.push(`  ${node.zid}["${mermaidText(caption(node))}<br/>${mermaidText(summarizeImplementations(node))}"]`);
+  }
+
+  const calls = new Map<string, { from: string; to: string; implementations: string[]; cycle: boolean }>();
+  for (const edge of graph.edges) {
+    const key = `${edge.from} ${edge.to}`;
+    const call = calls.get(key) ?? { from: edge.from, to: edge.to, implementations: [], cycle: false };
+    if (!call.implementations.includes(edge.implementation)) call.implementations.push(edge.implementation);
+    call.cycle ||= edge.cycle;
+    calls.set(key, call);
+  }
+  for (const call of calls.values()) {
+    lines.push(`  ${call.from} ${call.cycle ? "-.->" : "-->"}|${call.implementations.join(", ")}| ${call.to}`);
+  }
+
+  const limited = graph.functions.filter((node) => node.status === "depth_limit").map((node) => node.zid);
+  const missing = graph.functions.filter((node) => node.status === "not_found" || node.status === "not_function").map((node) => node.zid);
+  if (limited.length > 0) {
+    lines.push("  classDef depthLimit stroke-dasharray: 5 5", `  class ${limited.join(",")} depthLimit`);
+  }
+  if (missing.length > 0) {
+    lines.push("  classDef missing stroke:#d33,color:#d33", `  class ${missing.join(",")} missing`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,69 @@
+import { config } from "./config.js";
+import { collectLanguageZids, loadLanguages, pickLabel } from "./languages.js";
+import { getMultipleDetails } from "./wikifunctions-api.js";
+import { canonicalize, collectZObjectIds, listItems, prettyPrint, terminalValue, ZObjectLabels } from "./zobject.js";
+
+// --- Explaining ZObjects ---
+//
+// Resolves ZIDs and keys to labels in one batch. Key labels live on whatever
+// defines the key: a type (Z4K2 keys, Z3) or a function (Z8K1 arguments,
+// Z17), so those are fetched together with the referenced ZIDs.
+
+export interface ExplainedZObject {
+  /** The ZObject in canonical form. */
+  zobject: any;
+  /** The outline produced by `prettyPrint`. */
+  text: string;
+  labels: ZObjectLabels;
+}
+
+/**
+ * Labels of the given ZIDs and keys (e.g. "Z11K1") in `language`. ZIDs and
+ * keys without a label are left out.
+ */
+export async function resolveLabels(
+  zids: string[],
+  keys: string[] = [],
+  language: string = config.language
+): Promise<ZObjectLabels> {
+  const owners = keys.map((key) => key.replace(/K\d+$/, ""));
+  const wanted = Array.from(new Set([...zids, ...owners]));
+  const details = await getMultipleDetails(wanted);
+
+  const keyDefinitions = (zid: string): { key: any; labels: any }[] => {
+    const value = details[zid]?.Z2K2;
+    switch (terminalValue(value?.Z1K1)) {
+      case "Z4":
+        return listItems(value.Z4K2).map((keyDef: any) => ({ key: keyDef?.Z3K2, labels: keyDef?.Z3K3?.Z12K1 }));
+      case "Z8":
+        return listItems(value.Z8K1).map((arg: any) => ({ key: arg?.Z17K2, labels: arg?.Z17K3?.Z12K1 }));
+      default:
+        return [];
+    }
+  };
+
+  const definitions = Array.from(new Set(owners)).flatMap(keyDefinitions);
+  await loadLanguages(
+    collectLanguageZids(...wanted.map((zid) => details[zid]?.Z2K3?.Z12K1), ...definitions.map((def) => def.labels))
+  );
+
+  const labels: ZObjectLabels = { zids: {}, keys: {} };
+  for (const zid of zids) {
+    const label = pickLabel(details[zid]?.Z2K3?.Z12K1, language);
+    if (label) labels.zids[zid] = label.text;
+  }
+  for (const definition of definitions) {
+    const key = terminalValue(definition.key);
+    const label = pickLabel(definition.labels, language);
+    if (typeof key === "string" && keys.includes(key) && label) labels.keys[key] = label.text;
+  }
+  return labels;
+}
+
+/** Labels every ZID and key in `zobject` and renders it as an annotated outline. */
+export async function explainZObject(zobject: any, language: string = config.language): Promise<ExplainedZObject> {
+  const canonical = canonicalize(zobject);
+  const ids = collectZObjectIds(canonical);
+  const labels = await resolveLabels(ids.zids, ids.keys, language);
+  return { zobject: canonical, text: prettyPrint(canonical, labels), labels };
+}
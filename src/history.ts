@@ -0,0 +1,178 @@
+import fs from "node:fs";
+import { config, HistoryConfig } from "./config.js";
+import { renderComposition } from "./implementations.js";
+import { languageZidOf } from "./languages.js";
+import { DecodedError, ExecutionStats } from "./result-decoder.js";
+import { bigintReplacer } from "./type-converter.js";
+import { canonicalize, isReference } from "./zobject.js";
+
+// --- Run history ---
+//
+// Every run_template call that reached Wikifunctions is recorded with its
+// inputs and decoded result, so that it can be listed, replayed and turned
+// into a tester. Without a history file each session has its own history;
+// with one, all sessions share a history that survives restarts.
+
+export interface RunRecord {
+  id: number;
+  /** ISO 8601 time of the run. */
+  timestamp: string;
+  functionZid: string;
+  functionName?: string;
+  template: any;
+  values: Record<string, unknown>;
+  /** The Z7 function call, as sent. */
+  call: any;
+  success: boolean;
+  /** The result converted to plain JSON; integers are given as strings. */
+  value?: unknown;
+  /** The result (Z22K1) in canonical form. */
+  rawValue?: unknown;
+  resultType?: string;
+  error?: DecodedError;
+  /** The result metadata (Z22K2) in canonical form. */
+  metadata?: unknown;
+  stats: ExecutionStats;
+  /** For replays: the run that was repeated. */
+  replayOf?: number;
+}
+
+export type NewRunRecord = Omit<RunRecord, "id" | "timestamp">;
+
+export class RunHistory {
+  private runs: RunRecord[] = [];
+  private nextId = 1;
+
+  constructor(private readonly options: HistoryConfig) {
+    if (options.file) {
+      this.load(options.file);
+    }
+  }
+
+  /** Records a run and returns it with its ID; the oldest runs are dropped beyond maxEntries. */
+  add(run: NewRunRecord): RunRecord {
+    // Stored as plain JSON so that listing and persisting it cannot fail on BigInts.
+    const record: RunRecord = JSON.parse(
+      JSON.stringify({ id: this.nextId++, timestamp: new Date().toISOString(), ...run }, bigintReplacer)
+    );
+    this.runs.push(record);
+    if (this.runs.length > this.options.maxEntries) {
+      this.runs.splice(0, this.runs.length - this.options.maxEntries);
+    }
+    this.save();
+    return record;
+  }
+
+  get(id: number): RunRecord | undefined {
+    return this.runs.find((run) => run.id === id);
+  }
+
+  /** The runs, most recent first. */
+  list(functionZid?: string): RunRecord[] {
+    return this.runs.filter((run) => !functionZid || run.functionZid === functionZid).reverse();
+  }
+
+  private load(file: string): void {
+    if (!fs.existsSync(file)) return;
+    try {
+      const stored = JSON.parse(fs.readFileSync(file, "utf8"));
+      this.runs = Array.isArray(stored?.runs) ? stored.runs : [];
+      this.nextId = this.runs.reduce((max, run) => Math.max(max, run.id), 0) + 1;
+    } catch (error: any) {
+      console.error(`Ignoring unreadable history file ${file}: ${error?.message || String(error)}`);
+    }
+  }
+
+  private save(): void {
+    if (!this.options.file) return;
+    try {
+      fs.writeFileSync(this.options.file, JSON.stringify({ runs: this.runs }));
+    } catch (error: any) {
+      console.error(`Could not write history file ${this.options.file}: ${error?.message || String(error)}`);
+    }
+  }
+}
+
+let sharedHistory: RunHistory | null = null;
+
+/** The history for a new session: its own, or the shared persisted one if a history file is set. */
+export function createSessionHistory(options: HistoryConfig = config.history): RunHistory {
+  if (!options.file) return new RunHistory(options);
+  sharedHistory ??= new RunHistory(options);
+  return sharedHistory;
+}
+
+/** Whether two runs produced the same result or the same error. */
+export function sameOutcome(a: RunRecord, b: RunRecord): boolean {
+  if (a.success !== b.success) return false;
+  const outcome = (run: RunRecord) => JSON.stringify(run.success ? run.rawValue : run.error?.type);
+  return outcome(a) === outcome(b);
+}
+
+export function formatRunSummary(run: RunRecord): string {
+  const name = run.functionName ? `${run.functionName} (${run.functionZid})` : run.functionZid;
+  const outcome = run.success
+    ? `→ ${JSON.stringify(run.value ?? run.rawValue)}`
+    : `failed: ${run.error?.label ?? run.error?.type ?? "unknown error"}`;
+  const replay = run.replayOf !== undefined ? `, replay of run ${run.replayOf}` : "";
+  return `Run ${run.id} [${run.timestamp}${replay}] ${name} ${JSON.stringify(run.values)} ${outcome}`;
+}
+
+// --- Export as tester ---
+
+const STRING_EQUALITY = "Z866";
+const MAX_LABEL_LENGTH = 100;
+
+export interface TesterOptions {
+  /** The equality function that validates the result; it gets the result as K1 and the expected value as K2. */
+  validator?: string;
+  label?: string;
+  language?: string;
+}
+
+function isStringValue(value: any): boolean {
+  return typeof value === "string" || (value?.Z1K1 === "Z6" && typeof value.Z6K1 === "string");
+}
+
+/** E.g. `join words[Z10000](["a", "b"]) → "a b"`. */
+function defaultTesterLabel(run: RunRecord): string {
+  const labels = run.functionName ? { [run.functionZid]: run.functionName } : {};
+  const label = `${renderComposition(canonicalize(run.call), labels)} → ${renderComposition(run.rawValue)}`.replace(/\s+/g, " ");
+  return label.length > MAX_LABEL_LENGTH ? `${label.slice(0, MAX_LABEL_LENGTH - 1)}…` : label;
+}
+
+/**
+ * Builds a new tester (Z20) for the function of a successful run: Z20K2 is
+ * the call that was run and Z20K3 checks the result against the observed
+ * one. The tester is in canonical form with Z0 as its ZID, ready to be
+ * created on the wiki.
+ */
+export function runAsTester(run: RunRecord, options: TesterOptions = {}): any {
+  if (!run.success) {
+    throw new Error(`Run ${run.id} failed, so there is no observed result to test for.`);
+  }
+  const validator = options.validator ?? STRING_EQUALITY;
+  if (!isReference(validator)) {
+    throw new Error(`'${validator}' is not a ZID; expected the equality function to validate with, e.g. 'Z866'.`);
+  }
+  if (validator === STRING_EQUALITY && !isStringValue(run.rawValue)) {
+    throw new Error(
+      `Run ${run.id} returned a ${run.resultType ?? "non-String value"}, but ${STRING_EQUALITY} only compares Strings; pass the equality function for that type as the validator.`
+    );
+  }
+
+  const language = languageZidOf(options.language ?? config.language) ?? "Z1002";
+  return {
+    Z1K1: "Z2",
+    Z2K1: { Z1K1: "Z6", Z6K1: "Z0" },
+    Z2K2: {
+      Z1K1: "Z20",
+      Z20K1: run.functionZid,
+      Z20K2: canonicalize(run.call),
+      Z20K3: { Z1K1: "Z7", Z7K1: validator, [`${validator}K2`]: run.rawValue },
+    },
+    Z2K3: { Z1K1: "Z12", Z12K1: ["Z11", { Z1K1: "Z11", Z11K1: language, Z11K2: options.label ?? defaultTesterLabel(run) }] },
+    Z2K4: { Z1K1: "Z32", Z32K1: ["Z31"] },
+    Z2K5: { Z1K1: "Z12", Z12K1: ["Z11"] },
+  };
+}
@@ -0,0 +1,243 @@
+import axios from "axios";
+import { config } from "./config.js";
+import { TokenBucket } from "./rate-limit.js";
+import { currentRequestContext } from "./request-context.js";
+
+// One shared client; the endpoint and User-Agent of the active profile are
+// set on every request, so the configuration is read only when one is made.
+export const httpClient = axios.create();
+
+// --- Request errors ---
+//
+// Every failed request surfaces as one of these. `hint` tells the user what
+// to do about it; `retryable` failures are retried by `apiGet` first.
+
+export class WikifunctionsRequestError extends Error {
+  constructor(message: string, readonly hint: string, readonly retryable: boolean) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class WikifunctionsTimeoutError extends WikifunctionsRequestError {
+  constructor(readonly timeoutSeconds: number) {
+    super(
+      `The request timed out after ${timeoutSeconds} s.`,
+      "Wikifunctions or its function orchestrator is slow right now; try again later, or raise the limit with --timeout or --run-timeout.",
+      true
+    );
+  }
+}
+
+export class WikifunctionsNetworkError extends WikifunctionsRequestError {
+  constructor(readonly code: string | undefined, detail: string) {
+    super(
+      `Could not reach ${config.apiUrl}: ${detail}.`,
+      "Check the network connection and the API URL (--api-url or the active profile).",
+      code !== "ENOTFOUND"
+    );
+  }
+}
+
+export class WikifunctionsHttpError extends WikifunctionsRequestError {
+  constructor(readonly status: number) {
+    const transient = status >= 500;
+    super(
+      `The API answered with HTTP ${status}.`,
+      transient
+        ? "The wiki had a temporary problem; try again in a moment."
+        : "Check the API URL (--api-url) and the request parameters.",
+      transient
+    );
+  }
+}
+
+export class WikifunctionsRateLimitError extends WikifunctionsRequestError {
+  constructor(readonly retryAfterSeconds?: number) {
+    super(
+      "Wikifunctions is rate limiting this client.",
+      retryAfterSeconds !== undefined
+        ? `Wait ${Math.ceil(retryAfterSeconds)} s before trying again, or lower --rate-limit.`
+        : "Wait a moment before trying again, or lower --rate-limit.",
+      true
+    );
+  }
+}
+
+export class WikifunctionsMaxlagError extends WikifunctionsRequestError {
+  constructor(readonly lagSeconds?: number) {
+    super(
+      `The wiki's database replicas are lagging${lagSeconds !== undefined ? ` by ${lagSeconds} s` : ""}.`,
+      "The wiki is under load; try again in a minute, or raise --maxlag.",
+      true
+    );
+  }
+}
+
+export class WikifunctionsApiError extends WikifunctionsRequestError {
+  constructor(readonly code: string, readonly info: string) {
+    super(`The API returned an error (${code}): ${info}`, "Check the request; retrying will not help.", false);
+  }
+}
+
+export class WikifunctionsCancelledError extends WikifunctionsRequestError {
+  constructor(readonly timeoutSeconds?: number) {
+    super(
+      timeoutSeconds !== undefined
+        ? `The call did not finish within its time limit of ${timeoutSeconds} s and was stopped.`
+        : "The call was cancelled.",
+      timeoutSeconds !== undefined ? "Pass a larger timeout_seconds, or leave it out." : "",
+      false
+    );
+  }
+}
+
+/** The message and hint of a request error, or the message of any other error. */
+export function describeRequestError(error: unknown): string {
+  if (error instanceof WikifunctionsRequestError) return `${error.message} ${error.hint}`;
+  if (error instanceof Error) return error.message;
+  return typeof error === "object" ? JSON.stringify(error) : String(error);
+}
+
+// --- Requests ---
+
+export interface RequestOptions {
+  timeoutSeconds?: number;
+  maxRetries?: number;
+  /** Whether timeouts are retried; a call that timed out once is likely to again. */
+  retryTimeouts?: boolean;
+  /** Cancels the request, including waits between retries; defaults to the signal of the current tool call. */
+  signal?: AbortSignal;
+}
+
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30_000;
+// A longer Retry-After is reported to the user rather than waited for.
+const MAX_RETRY_AFTER_MS = 60_000;
+
+// Shared by all requests; created on first use, from the configuration.
+let rateLimiter: TokenBucket | undefined;
+
+/** The error for an aborted signal: a timeout if it came from the call's time limit, a cancellation otherwise. */
+function cancellationError(signal: AbortSignal): WikifunctionsCancelledError {
+  const timedOut = signal.reason?.name === "TimeoutError";
+  return new WikifunctionsCancelledError(timedOut ? currentRequestContext()?.timeoutSeconds ?? 0 : undefined);
+}
+
+/** Resolves with `promise`, or rejects as soon as `signal` is aborted. */
+function unlessAborted<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(cancellationError(signal));
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(cancellationError(signal));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  let timer: NodeJS.Timeout | undefined;
+  return unlessAborted(new Promise<void>((resolve) => (timer = setTimeout(resolve, ms))), signal).finally(() =>
+    clearTimeout(timer)
+  );
+}
+
+/** Exponential backoff with "equal jitter": between half and all of the exponential delay. */
+function backoffDelay(attempt: number): number {
+  const delay = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/** Retry-After is either a number of seconds or an HTTP date. */
+function parseRetryAfter(header: unknown): number | undefined {
+  if (typeof header !== "string" && typeof header !== "number") return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? undefined : Math.max(0, (date - Date.now()) / 1000);
+}
+
+function fromApiError(apiError: any, retryAfterSeconds?: number): WikifunctionsRequestError {
+  const code = String(apiError?.code ?? "unknown");
+  const info = String(apiError?.info ?? apiError?.["*"] ?? "no details");
+  if (code === "maxlag") {
+    const lag = Number(apiError?.lag ?? /(\d+(?:\.\d+)?) seconds? lagged/.exec(info)?.[1]);
+    return new WikifunctionsMaxlagError(Number.isFinite(lag) ? lag : undefined);
+  }
+  if (code === "ratelimited") return new WikifunctionsRateLimitError(retryAfterSeconds);
+  return new WikifunctionsApiError(code, info);
+}
+
+function fromAxiosError(error: any, timeoutSeconds: number): WikifunctionsRequestError {
+  if (!axios.isAxiosError(error)) {
+    return new WikifunctionsRequestError(error?.message || String(error), "", false);
+  }
+  if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+    return new WikifunctionsTimeoutError(timeoutSeconds);
+  }
+  const response = error.response;
+  if (!response) {
+    return new WikifunctionsNetworkError(error.code, error.message);
+  }
+  if (response.status === 429) {
+    return new WikifunctionsRateLimitError(parseRetryAfter(response.headers?.["retry-after"]));
+  }
+  if (response.data?.error) {
+    return fromApiError(response.data.error, parseRetryAfter(response.headers?.["retry-after"]));
+  }
+  return new WikifunctionsHttpError(response.status);
+}
+
+/**
+ * Makes a GET request to the API. Requests are rate limited and time out;
+ * network errors, timeouts, 429, 5xx and maxlag responses are retried with
+ * exponential backoff (or after Retry-After when the server sends it).
+ * Failures are thrown as `WikifunctionsRequestError`s; when the signal is
+ * aborted, the request is stopped with a `WikifunctionsCancelledError`.
+ */
+export async function apiGet(params: Record<string, unknown>, options: RequestOptions = {}): Promise<any> {
+  const timeoutSeconds = options.timeoutSeconds ?? config.http.timeoutSeconds;
+  const maxRetries = options.maxRetries ?? config.http.maxRetries;
+  const requestParams =
+    config.http.maxlagSeconds > 0 ? { maxlag: config.http.maxlagSeconds, ...params } : params;
+
+  const signal = options.signal ?? currentRequestContext()?.signal;
+
+  rateLimiter ??= new TokenBucket(config.http.requestsPerSecond, config.http.burst);
+  for (let attempt = 0; ; attempt++) {
+    await rateLimiter.take(signal).catch((error) => {
+      throw signal?.aborted ? cancellationError(signal) : error;
+    });
+
+    let failure: WikifunctionsRequestError;
+    let retryAfterSeconds: number | undefined;
+    try {
+      const response = await httpClient.get("", {
+        baseURL: config.apiUrl,
+        headers: { "User-Agent": config.userAgent },
+        params: requestParams,
+        timeout: timeoutSeconds * 1000,
+        signal,
+      });
+      if (!response.data?.error) return response.data;
+      // MediaWiki reports API errors, including maxlag, with HTTP 200.
+      retryAfterSeconds = parseRetryAfter(response.headers?.["retry-after"]);
+      failure = fromApiError(response.data.error, retryAfterSeconds);
+    } catch (error: any) {
+      if (signal?.aborted) throw cancellationError(signal);
+      retryAfterSeconds = parseRetryAfter(error?.response?.headers?.["retry-after"]);
+      failure = fromAxiosError(error, timeoutSeconds);
+    }
+
+    const retryable =
+      failure.retryable && (options.retryTimeouts !== false || !(failure instanceof WikifunctionsTimeoutError));
+    if (!retryable || attempt >= maxRetries) throw failure;
+
+    const delay = retryAfterSeconds !== undefined ? retryAfterSeconds * 1000 : backoffDelay(attempt);
+    if (delay > MAX_RETRY_AFTER_MS) throw failure;
+    console.error(
+      `${failure.message} Retrying in ${(delay / 1000).toFixed(1)} s (attempt ${attempt + 2} of ${maxRetries + 1}).`
+    );
+    await sleep(delay, signal);
+  }
+}
@@ -0,0 +1,224 @@
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import http, { IncomingMessage, ServerResponse } from "node:http";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { config, ServerConfig } from "./config.js";
+
+// --- HTTP transport ---
+//
+// POST/GET/DELETE /mcp                  Streamable HTTP; sessions are identified
+//                                       by the mcp-session-id header
+// GET /sse, POST /messages?sessionId=…  the legacy HTTP+SSE transport
+// GET /health                           status and session counts, never
+//                                       behind authentication
+//
+// Every session gets its own McpServer from `createServer`, so that all
+// sessions (and the stdio transport) share the same tools and resources.
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const SHUTDOWN_TIMEOUT_MS = 10_000;
+
+interface Session<T> {
+  transport: T;
+  server: McpServer;
+}
+
+class RequestError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code: -32000, message }, id: null }, headers);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RequestError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes.`);
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new RequestError(400, "Request body is not valid JSON.");
+  }
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? "");
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function headerValue(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/** Serves MCP over HTTP until SIGINT or SIGTERM, then closes every session before exiting. */
+export async function startHttpServer(createServer: () => McpServer, options: ServerConfig): Promise<void> {
+  const streamableSessions = new Map<string, Session<StreamableHTTPServerTransport>>();
+  const sseSessions = new Map<string, Session<SSEServerTransport>>();
+  const startedAt = Date.now();
+  let shuttingDown = false;
+
+  async function handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = headerValue(req, "mcp-session-id");
+
+    if (req.method === "POST") {
+      const body = await readJsonBody(req);
+      if (sessionId) {
+        const session = streamableSessions.get(sessionId);
+        if (!session) {
+          sendJsonRpcError(res, 404, "Unknown or expired session; initialize a new one.");
+          return;
+        }
+        await session.transport.handleRequest(req, res, body);
+        return;
+      }
+      if (!isInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, "No session ID; the first request of a session must be an initialize request.");
+        return;
+      }
+
+      const server = createServer();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          streamableSessions.set(id, { transport, server });
+        },
+      });
+      // Set before connecting; the server chains its own close handler onto it.
+      transport.onclose = () => {
+        if (transport.sessionId) streamableSessions.delete(transport.sessionId);
+      };
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === "GET" || req.method === "DELETE") {
+      const session = sessionId ? streamableSessions.get(sessionId) : undefined;
+      if (!session) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, sessionId ? "Unknown or expired session." : "Missing mcp-session-id header.");
+        return;
+      }
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    sendJsonRpcError(res, 405, "Method not allowed.", { Allow: "GET, POST, DELETE" });
+  }
+
+  async function handleSseStream(res: ServerResponse): Promise<void> {
+    const server = createServer();
+    const transport = new SSEServerTransport("/messages", res);
+    sseSessions.set(transport.sessionId, { transport, server });
+    transport.onclose = () => {
+      sseSessions.delete(transport.sessionId);
+    };
+    await server.connect(transport);
+  }
+
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    const session = sseSessions.get(url.searchParams.get("sessionId") ?? "");
+    if (!session) {
+      sendJsonRpcError(res, 404, "Unknown or expired SSE session; open a new stream at /sse.");
+      return;
+    }
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    if (url.pathname === "/health" && req.method === "GET") {
+      sendJson(res, shuttingDown ? 503 : 200, {
+        status: shuttingDown ? "shutting down" : "ok",
+        profile: config.profile,
+        apiUrl: config.apiUrl,
+        sessions: { streamableHttp: streamableSessions.size, sse: sseSessions.size },
+        uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+      });
+      return;
+    }
+    if (shuttingDown) {
+      sendJsonRpcError(res, 503, "The server is shutting down.");
+      return;
+    }
+    if (options.authToken && !isAuthorized(req, options.authToken)) {
+      sendJsonRpcError(res, 401, "Missing or invalid bearer token.", {
+        "WWW-Authenticate": 'Bearer realm="wikifunctions"',
+      });
+      return;
+    }
+
+    if (url.pathname === "/mcp") {
+      await handleStreamable(req, res);
+    } else if (url.pathname === "/sse" && req.method === "GET") {
+      await handleSseStream(res);
+    } else if (url.pathname === "/messages" && req.method === "POST") {
+      await handleSseMessage(req, res, url);
+    } else {
+      sendJsonRpcError(res, 404, `Not found; MCP is served at /mcp (or /sse for legacy clients).`);
+    }
+  }
+
+  const httpServer = http.createServer((req, res) => {
+    handle(req, res).catch((error: any) => {
+      const status = error instanceof RequestError ? error.status : 500;
+      if (status === 500) console.error("Error handling HTTP request:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, status, error?.message || "Internal server error.");
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    const sessions = [...streamableSessions.values(), ...sseSessions.values()];
+    console.error(`${signal} received; closing ${sessions.length} session(s) and shutting down.`);
+
+    const forceExit = setTimeout(() => process.exit(1), SHUTDOWN_TIMEOUT_MS);
+    forceExit.unref();
+
+    httpServer.close();
+    await Promise.allSettled(sessions.map(({ server }) => server.close()));
+    httpServer.closeAllConnections();
+    // The exit handler flushes the cache file.
+    process.exit(0);
+  };
+  process.once("SIGINT", () => void shutdown("SIGINT"));
+  process.once("SIGTERM", () => void shutdown("SIGTERM"));
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+
+  const base = `http://${options.host}:${options.port}`;
+  console.error(
+    `WikiFunctions MCP Server listening on ${base}/mcp (Streamable HTTP) and ${base}/sse (legacy SSE), profile '${config.profile}', ${config.apiUrl}, ${options.authToken ? "bearer token required" : "no authentication"}`
+  );
+  if (!options.authToken && !["127.0.0.1", "localhost", "::1"].includes(options.host)) {
+    console.error("Warning: the server is reachable from other hosts without authentication; set --auth-token.");
+  }
+}
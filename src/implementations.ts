@@ -0,0 +1,255 @@
+import { config } from "./config.js";
+import { resolveLabels } from "./explain.js";
+import { describeRequestError } from "./http-client.js";
+import { collectLanguageZids, loadLanguages, LocalizedText, pickLabel } from "./languages.js";
+import { reportProgress } from "./request-context.js";
+import { bigintReplacer, convertZObjectToValue, formatType, isNativeConverter } from "./type-converter.js";
+import {
+  findAllImplementations,
+  getFunctionDetails,
+  getImplementations,
+  getMultipleDetails,
+  programmingLanguageOf,
+} from "./wikifunctions-api.js";
+import { isReference, listItems, terminalValue } from "./zobject.js";
+
+// --- Implementations ---
+//
+// Z8K4 only lists the implementations connected to a function; the others
+// are found by searching for Z14 objects that point at it. Compositions are
+// rendered as nested calls such as `if[Z802](is zero[Z13522](n), 1, n)`,
+// with argument references (Z18) shown by the argument's name.
+
+export type ImplementationKind = "code" | "composition" | "builtin" | "unknown";
+
+export interface ImplementationInfo {
+  zid: string;
+  label: LocalizedText | null;
+  kind: ImplementationKind;
+  /** Whether the function lists the implementation in Z8K4, i.e. may run it. */
+  connected: boolean;
+  /** For code: the programming language of Z16K1. */
+  programmingLanguage?: string;
+  /** For compositions: the rendered expression. */
+  composition?: string;
+  /** For built-ins: the ID of the built-in (Z14K4). */
+  builtin?: string;
+}
+
+export interface ImplementationList {
+  functionZid: string;
+  functionLabel: LocalizedText | null;
+  implementations: ImplementationInfo[];
+  /** Problems that left the list incomplete. */
+  warnings: string[];
+}
+
+// Types rendered by `renderComposition` itself rather than as instances.
+const STRUCTURAL_TYPES = new Set(["Z6", "Z7", "Z9", "Z18"]);
+// Expressions longer than this are broken over several lines.
+const MAX_LINE_LENGTH = 80;
+
+interface RenderContext {
+  labels: Record<string, string>;
+  argumentNames: Record<string, string>;
+}
+
+function typeOf(node: any): string | undefined {
+  const type = terminalValue(node?.Z1K1);
+  return typeof type === "string" ? type : undefined;
+}
+
+/** ZIDs whose labels are needed to render the composition. */
+function collectReferencedZids(node: any, zids: Set<string>): void {
+  if (typeof node === "string") {
+    if (isReference(node)) zids.add(node);
+  } else if (Array.isArray(node)) {
+    node.slice(1).forEach((item) => collectReferencedZids(item, zids));
+  } else if (node && typeof node === "object") {
+    const type = typeOf(node);
+    // Values of native types are rendered as JSON and need no labels.
+    if (type === "Z6" || type === "Z18" || (type && !STRUCTURAL_TYPES.has(type) && isNativeConverter(type))) return;
+    for (const [key, value] of Object.entries(node)) {
+      if (key === "Z1K1" && type && STRUCTURAL_TYPES.has(type)) continue;
+      collectReferencedZids(value, zids);
+    }
+  }
+}
+
+function renderReference(zid: string, context: RenderContext): string {
+  const label = context.labels[zid];
+  return label ? `${label}[${zid}]` : zid;
+}
+
+/** Keys of a call or instance other than its type, in key order. */
+function argumentKeys(node: Record<string, any>, ...skip: string[]): string[] {
+  const keyNumber = (key: string) => Number(/K(\d+)$/.exec(key)?.[1] ?? Infinity);
+  return Object.keys(node)
+    .filter((key) => key !== "Z1K1" && !skip.includes(key))
+    .sort((a, b) => keyNumber(a) - keyNumber(b));
+}
+
+function joinArguments(head: string, parts: string[], open: string, close: string): string {
+  const oneLine = `${head}${open}${parts.join(", ")}${close}`;
+  if (oneLine.length <= MAX_LINE_LENGTH && !oneLine.includes("\n")) return oneLine;
+  const indented = parts.map((part) => `  ${part.replace(/\n/g, "\n  ")}`);
+  return `${head}${open}\n${indented.join(",\n")}\n${close}`;
+}
+
+function renderNode(node: any, context: RenderContext): string {
+  if (typeof node === "string") {
+    return isReference(node) ? renderReference(node, context) : JSON.stringify(node);
+  }
+  if (Array.isArray(node)) {
+    // Benjamin array: the first element is the item type.
+    return joinArguments("", node.slice(1).map((item) => renderNode(item, context)), "[", "]");
+  }
+  if (!node || typeof node !== "object") {
+    return JSON.stringify(node);
+  }
+
+  const type = typeOf(node);
+  switch (type) {
+    case "Z6":
+      return JSON.stringify(terminalValue(node.Z6K1));
+    case "Z9":
+      return renderReference(String(node.Z9K1), context);
+    case "Z18": {
+      const key = String(terminalValue(node.Z18K1));
+      const localKey = /K\d+$/.exec(key)?.[0] ?? key;
+      return context.argumentNames[key] ?? context.argumentNames[localKey] ?? key;
+    }
+    case "Z7": {
+      const callee = typeof node.Z7K1 === "string" ? renderReference(node.Z7K1, context) : renderNode(node.Z7K1, context);
+      const args = argumentKeys(node, "Z7K1").map((key) => renderNode(node[key], context));
+      return joinArguments(callee, args, "(", ")");
+    }
+  }
+
+  if (type && isNativeConverter(type)) {
+    const value = convertZObjectToValue(node);
+    if (typeof value === "bigint") return String(value);
+    if (value !== node) return JSON.stringify(value, bigintReplacer);
+  }
+  const typeName = type ? renderReference(type, context) : formatType(node.Z1K1);
+  const fields = argumentKeys(node).map((key) => `${key}: ${renderNode(node[key], context)}`);
+  return joinArguments(typeName, fields, "{", "}");
+}
+
+/**
+ * Renders a composition (Z14K2) as a nested call expression. `labels` maps
+ * ZIDs to labels and `argumentNames` maps argument keys to names.
+ */
+export function renderComposition(
+  composition: any,
+  labels: Record<string, string> = {},
+  argumentNames: Record<string, string> = {}
+): string {
+  return renderNode(composition, { labels, argumentNames });
+}
+
+/** The kind of an implementation (the Z2K2 of a Z14). */
+export function implementationKind(implementation: any): ImplementationKind {
+  if (implementation?.Z14K2 !== undefined) return "composition";
+  if (implementation?.Z14K3 !== undefined) return "code";
+  if (implementation?.Z14K4 !== undefined) return "builtin";
+  return "unknown";
+}
+
+/**
+ * Lists the connected and disconnected implementations of a function, with
+ * labels and compositions in `language`. Returns null if the function does
+ * not exist.
+ */
+export async function listImplementations(
+  functionId: string,
+  language: string = config.language
+): Promise<ImplementationList | null> {
+  await reportProgress(`Fetching ${functionId}`);
+  const funcDef = await getFunctionDetails(functionId);
+  if (!funcDef || terminalValue(funcDef?.Z2K2?.Z1K1) !== "Z8") return null;
+
+  const warnings: string[] = [];
+  const connected = getImplementations(funcDef);
+  let found: string[] = [];
+  try {
+    await reportProgress("Searching for disconnected implementations");
+    found = await findAllImplementations(functionId);
+  } catch (error) {
+    warnings.push(`Disconnected implementations could not be listed: ${describeRequestError(error)}`);
+  }
+
+  const zids = [...connected, ...found.filter((zid) => !connected.includes(zid))];
+  await reportProgress(`Fetching ${zids.length} implementations`);
+  const details = await getMultipleDetails(zids);
+  // The search may return objects that no longer implement this function.
+  const implementationZids = zids.filter(
+    (zid) => connected.includes(zid) || terminalValue(details[zid]?.Z2K2?.Z14K1) === functionId
+  );
+  for (const zid of implementationZids) {
+    if (!details[zid]) warnings.push(`Implementation ${zid} could not be fetched.`);
+  }
+
+  const referenced = new Set<string>();
+  for (const zid of implementationZids) {
+    const composition = details[zid]?.Z2K2?.Z14K2;
+    if (composition !== undefined) collectReferencedZids(composition, referenced);
+  }
+  await reportProgress("Fetching labels");
+  const labels = (await resolveLabels([...referenced], [], language)).zids;
+  const args: any[] = listItems(funcDef.Z2K2.Z8K1).filter(Boolean);
+  await loadLanguages(
+    collectLanguageZids(
+      funcDef.Z2K3?.Z12K1,
+      ...args.map((arg) => arg?.Z17K3?.Z12K1),
+      ...implementationZids.map((zid) => details[zid]?.Z2K3?.Z12K1)
+    )
+  );
+
+  const argumentNames: Record<string, string> = {};
+  for (const arg of args) {
+    const key = terminalValue(arg.Z17K2);
+    argumentNames[key] = pickLabel(arg?.Z17K3?.Z12K1, language)?.text ?? key;
+  }
+
+  const implementations = implementationZids.map((zid): ImplementationInfo => {
+    const implementation = details[zid]?.Z2K2;
+    const info: ImplementationInfo = {
+      zid,
+      label: pickLabel(details[zid]?.Z2K3?.Z12K1, language),
+      kind: implementationKind(implementation),
+      connected: connected.includes(zid),
+    };
+    if (info.kind === "code") {
+      info.programmingLanguage = programmingLanguageOf(implementation.Z14K3);
+    } else if (info.kind === "composition") {
+      info.composition = renderComposition(implementation.Z14K2, labels, argumentNames);
+    } else if (info.kind === "builtin") {
+      info.builtin = String(terminalValue(implementation.Z14K4));
+    }
+    return info;
+  });
+
+  return {
+    functionZid: functionId,
+    functionLabel: pickLabel(funcDef.Z2K3?.Z12K1, language),
+    implementations,
+    warnings,
+  };
+}
+
+export function formatImplementation(info: ImplementationInfo): string {
+  const label = info.label ? `${info.label.text} [${info.label.language}]` : "(no label)";
+  const status = info.connected ? "connected" : "disconnected";
+  const heading = `**${info.zid}** ${label} — ${info.kind}, ${status}`;
+  switch (info.kind) {
+    case "code":
+      return `${heading}\nLanguage: ${info.programmingLanguage}`;
+    case "composition":
+      return `${heading}\n\`\`\`\n${info.composition}\n\`\`\``;
+    case "builtin":
+      return `${heading}\nBuilt-in: ${info.builtin}`;
+    default:
+      return heading;
+  }
+}
@@ -0,0 +1,141 @@
+import { config } from "./config.js";
+import { getMultipleDetails } from "./wikifunctions-api.js";
+import { listItems, terminalValue } from "./zobject.js";
+
+// --- Natural languages ---
+//
+// Labels are lists of Z11 monolingual texts whose language is a Z60 ZID.
+// ISO codes are mapped to those ZIDs by reading the Z60 objects themselves
+// (Z60K1 holds the code), so only the languages that actually occur in a
+// label list are ever fetched. Labels are picked along a MediaWiki-style
+// fallback chain: de-at → de → en → any.
+
+export interface LocalizedText {
+  text: string;
+  /** ISO code of the language the text is in, or its ZID if the code is unknown. */
+  language: string;
+  languageZid: string;
+}
+
+const ENGLISH = "en";
+
+const codeByZid = new Map<string, string>([["Z1002", ENGLISH]]);
+const zidByCode = new Map<string, string>([[ENGLISH, "Z1002"]]);
+
+// Languages whose MediaWiki fallback is not just their base code.
+const EXTRA_FALLBACKS: Record<string, string[]> = {
+  bar: ["de"],
+  gsw: ["de"],
+  ksh: ["de"],
+  lb: ["de"],
+  nds: ["de"],
+  frp: ["fr"],
+  pcd: ["fr"],
+  wa: ["fr"],
+};
+
+function monolingualTexts(multilingualList: any): { text: string; languageZid: string }[] {
+  return listItems(multilingualList)
+    .filter((item) => item && typeof item === "object")
+    .map((item) => ({ text: terminalValue(item.Z11K2), languageZid: terminalValue(item.Z11K1) }))
+    .filter((item) => typeof item.text === "string" && item.text && typeof item.languageZid === "string");
+}
+
+export function normalizeLanguageCode(code: string): string {
+  return code.trim().toLowerCase().replace(/_/g, "-");
+}
+
+/** The languages tried, in order, when looking for a label in `language`. */
+export function fallbackChain(language: string = config.language): string[] {
+  const chain: string[] = [];
+  const add = (code: string) => {
+    if (code && !chain.includes(code)) chain.push(code);
+  };
+
+  const code = normalizeLanguageCode(language);
+  add(code);
+  for (let dash = code.lastIndexOf("-"); dash > 0; dash = code.lastIndexOf("-", dash - 1)) {
+    add(code.slice(0, dash));
+  }
+  for (const base of [...chain]) {
+    (EXTRA_FALLBACKS[base] || []).forEach(add);
+  }
+  add(ENGLISH);
+  return chain;
+}
+
+/** The Z60 ZIDs of the languages used in the given label lists. */
+export function collectLanguageZids(...multilingualLists: any[]): string[] {
+  const zids = multilingualLists.flatMap((list) => monolingualTexts(list).map((item) => item.languageZid));
+  return Array.from(new Set(zids));
+}
+
+/** Learns the ISO codes of the given Z60 languages; already known ones are not fetched again. */
+export async function loadLanguages(languageZids: string[]): Promise<void> {
+  const unknown = languageZids.filter((zid) => !codeByZid.has(zid));
+  if (unknown.length === 0) return;
+
+  const details = await getMultipleDetails(unknown);
+  for (const zid of unknown) {
+    const code = terminalValue(details[zid]?.Z2K2?.Z60K1);
+    if (terminalValue(details[zid]?.Z2K2?.Z1K1) !== "Z60" || typeof code !== "string") continue;
+    codeByZid.set(zid, normalizeLanguageCode(code));
+    zidByCode.set(normalizeLanguageCode(code), zid);
+  }
+}
+
+/** Forgets the codes learned for the given languages, or for all of them; English stays. */
+export function resetLanguages(zids?: string[]): void {
+  for (const zid of zids ?? [...codeByZid.keys()]) {
+    const code = codeByZid.get(zid);
+    if (code === undefined || code === ENGLISH) continue;
+    codeByZid.delete(zid);
+    if (zidByCode.get(code) === zid) zidByCode.delete(code);
+  }
+}
+
+export function languageZidOf(code: string): string | undefined {
+  return zidByCode.get(normalizeLanguageCode(code));
+}
+
+export function languageCodeOf(zid: string): string | undefined {
+  return codeByZid.get(zid);
+}
+
+/**
+ * Picks the text for `language` from a Z12 label list, falling back along
+ * the chain and finally to any available language. Languages that were not
+ * loaded with `loadLanguages` can only be matched by the final fallback.
+ */
+export function pickLabel(multilingualList: any, language: string = config.language): LocalizedText | null {
+  const texts = monolingualTexts(multilingualList);
+  if (texts.length === 0) return null;
+
+  const describe = (item: { text: string; languageZid: string }): LocalizedText => ({
+    text: item.text,
+    language: codeByZid.get(item.languageZid) ?? item.languageZid,
+    languageZid: item.languageZid,
+  });
+
+  for (const code of fallbackChain(language)) {
+    const zid = zidByCode.get(code);
+    const match = zid && texts.find((item) => item.languageZid === zid);
+    if (match) return describe(match);
+  }
+  return describe(texts[0]);
+}
+
+/** Like `pickLabel`, but loads the languages of the list first. */
+export async function resolveLabel(multilingualList: any, language: string = config.language): Promise<LocalizedText | null> {
+  await loadLanguages(collectLanguageZids(multilingualList));
+  return pickLabel(multilingualList, language);
+}
+
+/** Every text of a label list, keyed by language code (or ZID if the code is unknown). */
+export function labelTranslations(multilingualList: any): Record<string, string> {
+  const translations: Record<string, string> = {};
+  for (const item of monolingualTexts(multilingualList)) {
+    translations[codeByZid.get(item.languageZid) ?? item.languageZid] = item.text;
+  }
+  return translations;
+}
@@ -0,0 +1,139 @@
+import { currentSignal, reportProgress } from "./request-context.js";
+import { decodeEvaluationResult, formatErrorChain } from "./result-decoder.js";
+import { runJavaScriptInSandbox, SandboxResult } from "./sandbox.js";
+import { buildFunctionCallTemplate, transformTemplateToFunctionCall } from "./templates.js";
+import { pinImplementation } from "./testers.js";
+import { bigintReplacer, convertValueToZObject, convertZObjectToValue } from "./type-converter.js";
+import { loadTypeConverters } from "./type-schema.js";
+import { extractCode, getImplementations, getMultipleDetails, runWikifunctionCall } from "./wikifunctions-api.js";
+import { terminalValue } from "./zobject.js";
+
+// --- Local execution of code implementations ---
+
+export interface LocalRunOptions {
+  implementationId?: string;
+  functionId?: string;
+  // 1-based position among the function's JavaScript implementations.
+  choice?: number;
+  values: Record<string, unknown>;
+  compareRemote: boolean;
+  timeoutMs: number;
+  memoryMb: number;
+}
+
+export interface LocalRunReport {
+  functionId: string;
+  implementationId: string;
+  args: unknown[];
+  local: SandboxResult;
+  // The local result after a round trip through the function's output type.
+  localValue?: unknown;
+  localConversionError?: string;
+  remote?: { success: boolean; value?: unknown; error?: string };
+  identical?: boolean;
+}
+
+async function resolveImplementation(
+  options: LocalRunOptions
+): Promise<{ functionId: string; implementationId: string; implementation: any }> {
+  if (options.implementationId) {
+    const implementationId = options.implementationId;
+    const implementation = (await getMultipleDetails([implementationId]))[implementationId];
+    if (implementation?.Z2K2?.Z1K1 !== "Z14") {
+      throw new Error(`${implementationId} is not an implementation.`);
+    }
+    return { functionId: terminalValue(implementation.Z2K2.Z14K1), implementationId, implementation };
+  }
+
+  const functionId = options.functionId;
+  if (!functionId) {
+    throw new Error("Provide either implementation_zid or function_zid.");
+  }
+  const functionData = (await getMultipleDetails([functionId]))[functionId];
+  if (functionData?.Z2K2?.Z1K1 !== "Z8") {
+    throw new Error(`${functionId} is not a function.`);
+  }
+
+  const implementationIds = getImplementations(functionData);
+  const implementations = await getMultipleDetails(implementationIds);
+  const javascript = implementationIds.filter(
+    (implId) => extractCode(implementations[implId])?.language === "javascript"
+  );
+  if (javascript.length === 0) {
+    throw new Error(`Function ${functionId} has no JavaScript implementations.`);
+  }
+
+  const choice = options.choice ?? 1;
+  if (choice < 1 || choice > javascript.length) {
+    throw new Error(
+      `Choice ${choice} is out of range; ${functionId} has ${javascript.length} JavaScript implementation(s): ${javascript.join(", ")}.`
+    );
+  }
+  const implementationId = javascript[choice - 1];
+  return { functionId, implementationId, implementation: implementations[implementationId] };
+}
+
+export async function runImplementationLocally(options: LocalRunOptions): Promise<LocalRunReport> {
+  await reportProgress("Fetching the implementation");
+  const { functionId, implementationId, implementation } = await resolveImplementation(options);
+
+  const code = extractCode(implementation);
+  if (!code) {
+    throw new Error(`Implementation ${implementationId} is not a code implementation.`);
+  }
+  if (code.language !== "javascript") {
+    throw new Error(`Implementation ${implementationId} is written in ${code.language}; only JavaScript can run locally.`);
+  }
+
+  const functionData = (await getMultipleDetails([functionId]))[functionId];
+  if (!functionData) {
+    throw new Error(`Function ${functionId} was not found.`);
+  }
+
+  // Build the call exactly as run_template would, then decode each argument
+  // into the native value the implementation receives.
+  const template = await buildFunctionCallTemplate(functionData);
+  if (template?.error) {
+    throw new Error(template.error);
+  }
+  const call = await transformTemplateToFunctionCall(template, options.values);
+  const argKeys = Object.keys(call).filter((key) => key.startsWith(`${functionId}K`));
+  const args = argKeys.map((key) => convertZObjectToValue(call[key]));
+
+  await reportProgress(`Running ${implementationId} locally`);
+  const local = await runJavaScriptInSandbox(code.code, functionId, args, {
+    timeoutMs: options.timeoutMs,
+    memoryMb: options.memoryMb,
+    signal: currentSignal(),
+  });
+
+  const report: LocalRunReport = { functionId, implementationId, args, local };
+
+  const outputType = functionData.Z2K2.Z8K2;
+  if (local.ok) {
+    try {
+      await loadTypeConverters(outputType);
+      report.localValue = convertZObjectToValue(convertValueToZObject(local.value, outputType));
+    } catch (error: any) {
+      report.localConversionError = error?.message || String(error);
+    }
+  }
+
+  if (options.compareRemote) {
+    const pinned = pinImplementation(call, functionId, functionData, implementationId);
+    await reportProgress(`Running ${implementationId} on Wikifunctions`);
+    const result = decodeEvaluationResult((await runWikifunctionCall(pinned)).raw);
+    report.remote = result.success
+      ? { success: true, value: result.value }
+      : { success: false, error: result.error ? formatErrorChain(result.error) : "The call failed." };
+
+    if (local.ok && result.success && report.localConversionError === undefined) {
+      report.identical =
+        JSON.stringify(report.localValue, bigintReplacer) === JSON.stringify(result.value, bigintReplacer);
+    } else {
+      report.identical = false;
+    }
+  }
+
+  return report;
+}
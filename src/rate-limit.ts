@@ -0,0 +1,70 @@
+// --- Rate limiting ---
+//
+// A token bucket: up to `capacity` requests can be made at once, after which
+// requests are spaced out to `ratePerSecond`. Waiters are served in order.
+
+interface Waiter {
+  resolve: () => void;
+  reject: (reason: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  private waiters: Waiter[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly ratePerSecond: number, private readonly capacity: number) {
+    this.tokens = Math.max(1, capacity);
+  }
+
+  /**
+   * Resolves once a request may be made. A rate of 0 never waits. When
+   * `signal` is aborted first, the waiter leaves the queue without using a
+   * token and the promise rejects with the signal's reason.
+   */
+  take(signal?: AbortSignal): Promise<void> {
+    if (this.ratePerSecond <= 0) return Promise.resolve();
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          this.waiters = this.waiters.filter((other) => other !== waiter);
+          reject(signal.reason);
+        };
+        signal.addEventListener("abort", waiter.onAbort, { once: true });
+      }
+      this.waiters.push(waiter);
+      this.serve();
+    });
+  }
+
+  /** Hands out tokens to waiters in order, then waits for the next token if any are left. */
+  private serve(): void {
+    if (this.timer) return;
+    this.refill();
+    while (this.waiters.length > 0 && this.tokens >= 1) {
+      const waiter = this.waiters.shift()!;
+      if (waiter.onAbort) waiter.signal!.removeEventListener("abort", waiter.onAbort);
+      this.tokens -= 1;
+      waiter.resolve();
+    }
+    if (this.waiters.length === 0) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.serve();
+    }, ((1 - this.tokens) / this.ratePerSecond) * 1000);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      Math.max(1, this.capacity),
+      this.tokens + ((now - this.updatedAt) / 1000) * this.ratePerSecond
+    );
+    this.updatedAt = now;
+  }
+}
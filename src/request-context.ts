@@ -0,0 +1,37 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+// --- Request context ---
+//
+// Tool handlers run inside a context that holds the MCP request's AbortSignal
+// (combined with the call's own time limit) and a way to report progress, so
+// that `apiGet`, the sandbox and long loops can stop or report without every
+// function in between passing them along.
+
+export interface RequestContext {
+  signal: AbortSignal;
+  /** The time limit the caller set for this call, if any. */
+  timeoutSeconds?: number;
+  /** Sends a progress notification to the client, if it asked for them. */
+  progress(message: string): Promise<void>;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function runInRequestContext<T>(context: RequestContext, fn: () => Promise<T>): Promise<T> {
+  return storage.run(context, fn);
+}
+
+/** The context of the tool call being handled; undefined outside of tool calls. */
+export function currentRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/** The AbortSignal of the tool call being handled, if any. */
+export function currentSignal(): AbortSignal | undefined {
+  return storage.getStore()?.signal;
+}
+
+/** Reports a stage of the tool call being handled, e.g. "Fetching 3 implementations". */
+export async function reportProgress(message: string): Promise<void> {
+  await storage.getStore()?.progress(message);
+}
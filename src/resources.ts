@@ -0,0 +1,222 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { describeRequestError } from "./http-client.js";
+import { explainZObject } from "./explain.js";
+import { collectLanguageZids, loadLanguages, pickLabel } from "./languages.js";
+import { buildFunctionCallTemplate } from "./templates.js";
+import {
+  extractCode,
+  getCode,
+  getFunctionDetails,
+  getImplementations,
+  getMultipleDetails,
+  onZObjectChanged,
+} from "./wikifunctions-api.js";
+
+// --- ZObject resources ---
+//
+// zobject://{zid}            the ZObject as JSON
+// zobject://{zid}/label      its label and description in the configured language
+// zobject://{zid}/pretty     the ZObject as an outline with keys and ZIDs labelled
+// zobject://{zid}/code       the code of an implementation, or of all code
+//                            implementations of a function
+// zobject://{zid}/signature  the call template of a function
+
+const ZID_PATTERN = /^Z[1-9]\d*$/;
+// Subscribed ZObjects are re-checked this often, so that changed revisions
+// are noticed even if nothing else fetches them.
+const SUBSCRIPTION_POLL_MS = 5 * 60 * 1000;
+
+function resolveZid(variables: Record<string, string | string[]>): string {
+  const zid = String(variables.zid ?? "");
+  if (!ZID_PATTERN.test(zid)) {
+    throw new Error(`Invalid ZID '${zid}' (expected something like 'Z801').`);
+  }
+  return zid;
+}
+
+async function fetchZObject(zid: string): Promise<any> {
+  const zobject = await getFunctionDetails(zid);
+  if (!zobject) {
+    throw new Error(`ZObject ${zid} was not found.`);
+  }
+  return zobject;
+}
+
+async function readCode(zid: string, zobject: any): Promise<string> {
+  switch (zobject?.Z2K2?.Z1K1) {
+    case "Z14": {
+      const code = await getCode(zid);
+      if (!code) {
+        throw new Error(`Implementation ${zid} is not a code implementation.`);
+      }
+      return code;
+    }
+
+    case "Z8": {
+      const implementationIds = getImplementations(zobject);
+      const implementations = await getMultipleDetails(implementationIds);
+      const sections = implementationIds
+        .map((implId) => ({ implId, code: extractCode(implementations[implId]) }))
+        .filter((impl) => impl.code)
+        .map(({ implId, code }) => `--- ${implId} (${code!.language}) ---\n${code!.code}`);
+      if (sections.length === 0) {
+        throw new Error(`Function ${zid} has no code implementations.`);
+      }
+      return sections.join("\n\n");
+    }
+
+    default:
+      throw new Error(`ZObject ${zid} is neither a function nor an implementation.`);
+  }
+}
+
+export function registerZObjectResources(server: McpServer): void {
+  server.resource(
+    "zobject",
+    new ResourceTemplate("zobject://{zid}", { list: undefined }),
+    { description: "A Wikifunctions ZObject as JSON.", mimeType: "application/json" },
+    async (uri, variables) => {
+      const zobject = await fetchZObject(resolveZid(variables));
+      return {
+        contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(zobject, null, 2) }],
+      };
+    }
+  );
+
+  server.resource(
+    "zobject-label",
+    new ResourceTemplate("zobject://{zid}/label", { list: undefined }),
+    {
+      description: "The label and description of a ZObject in the configured language, with their language codes.",
+      mimeType: "text/plain",
+    },
+    async (uri, variables) => {
+      const zid = resolveZid(variables);
+      const zobject = await fetchZObject(zid);
+      await loadLanguages(collectLanguageZids(zobject?.Z2K3?.Z12K1, zobject?.Z2K5?.Z12K1));
+      const label = pickLabel(zobject?.Z2K3?.Z12K1);
+      const description = pickLabel(zobject?.Z2K5?.Z12K1);
+      const labelText = label ? `${label.text} [${label.language}]` : zid;
+      const text = description ? `${labelText}\n\n${description.text} [${description.language}]` : labelText;
+      return { contents: [{ uri: uri.href, mimeType: "text/plain", text }] };
+    }
+  );
+
+  server.resource(
+    "zobject-pretty",
+    new ResourceTemplate("zobject://{zid}/pretty", { list: undefined }),
+    {
+      description: "A ZObject as an indented outline in which every key and ZID is followed by its label.",
+      mimeType: "text/plain",
+    },
+    async (uri, variables) => {
+      const { text } = await explainZObject(await fetchZObject(resolveZid(variables)));
+      return { contents: [{ uri: uri.href, mimeType: "text/plain", text }] };
+    }
+  );
+
+  server.resource(
+    "zobject-code",
+    new ResourceTemplate("zobject://{zid}/code", { list: undefined }),
+    {
+      description: "The code of an implementation, or of every code implementation of a function.",
+      mimeType: "text/plain",
+    },
+    async (uri, variables) => {
+      const zid = resolveZid(variables);
+      const text = await readCode(zid, await fetchZObject(zid));
+      return { contents: [{ uri: uri.href, mimeType: "text/plain", text }] };
+    }
+  );
+
+  server.resource(
+    "zobject-signature",
+    new ResourceTemplate("zobject://{zid}/signature", { list: undefined }),
+    {
+      description: "The call template of a function, with argument names and types, as used by run_template.",
+      mimeType: "application/json",
+    },
+    async (uri, variables) => {
+      const zid = resolveZid(variables);
+      const zobject = await fetchZObject(zid);
+      if (zobject?.Z2K2?.Z1K1 !== "Z8") {
+        throw new Error(`ZObject ${zid} is not a function.`);
+      }
+      const template = await buildFunctionCallTemplate(zobject);
+      if (template?.error) {
+        throw new Error(template.error);
+      }
+      return {
+        contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(template, null, 2) }],
+      };
+    }
+  );
+
+  registerSubscriptions(server);
+}
+
+function registerSubscriptions(server: McpServer): void {
+  const subscriptions = new Set<string>();
+  let pollTimer: NodeJS.Timeout | null = null;
+
+  const subscribedZids = (): string[] =>
+    Array.from(
+      new Set(
+        Array.from(subscriptions)
+          .map((uri) => /^zobject:\/\/(Z[1-9]\d*)/.exec(uri)?.[1])
+          .filter((zid): zid is string => !!zid)
+      )
+    );
+
+  const updatePolling = () => {
+    if (subscriptions.size > 0 && !pollTimer) {
+      pollTimer = setInterval(() => {
+        // Expired entries are revalidated against the latest revision.
+        getMultipleDetails(subscribedZids()).catch((error) => {
+          console.error(`Error polling subscribed ZObjects: ${describeRequestError(error)}`);
+        });
+      }, SUBSCRIPTION_POLL_MS);
+      pollTimer.unref();
+    } else if (subscriptions.size === 0 && pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+    }
+  };
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    updatePolling();
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    updatePolling();
+    return {};
+  });
+
+  const removeListener = onZObjectChanged((zid) => {
+    for (const uri of subscriptions) {
+      if (uri === `zobject://${zid}` || uri.startsWith(`zobject://${zid}/`)) {
+        server.server.sendResourceUpdated({ uri }).catch(() => {
+          // The client may already be gone.
+        });
+      }
+    }
+  });
+
+  // With the HTTP transport, servers come and go with their sessions.
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    previousOnClose?.();
+    subscriptions.clear();
+    updatePolling();
+    removeListener();
+  };
+}
@@ -0,0 +1,218 @@
+import { bigintReplacer, convertZObjectToValue, ZType } from "./type-converter.js";
+import { canonicalize, isReference, listItems, terminalValue } from "./zobject.js";
+
+// --- Z22 (Evaluation result) decoding ---
+//
+// A Z22 carries the result of a function call in Z22K1 (Z24/void on failure)
+// and a Z883 typed map in Z22K2 with execution metadata. Failures are reported
+// through an "errors" entry holding a Z5, whose Z5K2 arguments may in turn
+// contain further Z5 errors.
+
+export interface DecodedError {
+  type: string;
+  label?: string;
+  args: Record<string, unknown>;
+  causes: DecodedError[];
+}
+
+export interface ExecutionStats {
+  duration?: string;
+  orchestrationDuration?: string;
+  evaluationDuration?: string;
+  orchestrationMemoryUsage?: string;
+  evaluationMemoryUsage?: string;
+  orchestrationCpuUsage?: string;
+  evaluationCpuUsage?: string;
+  orchestrationHost?: string;
+  evaluationHost?: string;
+  implementationId?: string;
+  implementationType?: string;
+}
+
+export interface DecodedEvaluationResult {
+  success: boolean;
+  value: unknown;
+  rawValue: unknown;
+  error?: DecodedError;
+  metadata: Record<string, unknown>;
+  stats: ExecutionStats;
+}
+
+const ERROR_TYPE_LABELS: Record<string, string> = {
+  Z500: "Generic error",
+  Z501: "Error in JSON",
+  Z502: "Not wellformed",
+  Z503: "Not implemented yet",
+  Z504: "ZID not found",
+  Z505: "Number of arguments mismatch",
+  Z506: "Argument type mismatch",
+  Z507: "Error in evaluation",
+  Z508: "Competing keys",
+  Z509: "List of errors",
+  Z510: "Nil",
+  Z511: "Key not found",
+  Z513: "Resolved persistent object without value",
+  Z516: "Argument value error",
+  Z517: "Return type mismatch",
+  Z518: "Object type mismatch",
+};
+
+export function isVoid(value: any): boolean {
+  const unwrapped = terminalValue(value);
+  return unwrapped === "Z24" || (unwrapped && typeof unwrapped === "object" && unwrapped.Z1K1 === "Z24");
+}
+
+function isZ5(value: any): boolean {
+  return !!value && typeof value === "object" && terminalValue(value.Z1K1) === "Z5";
+}
+
+export function decodeError(zError: any): DecodedError {
+  const type = String(terminalValue(zError?.Z5K1) ?? "unknown");
+  const args: Record<string, unknown> = {};
+  const causes: DecodedError[] = [];
+
+  const argObject = zError?.Z5K2;
+  if (argObject && typeof argObject === "object") {
+    for (const [key, value] of Object.entries(argObject)) {
+      if (key === "Z1K1") continue;
+      if (isZ5(value)) {
+        causes.push(decodeError(value));
+      } else if (listItems(value).some(isZ5)) {
+        // e.g. Z509 (List of errors)
+        causes.push(...listItems(value).filter(isZ5).map(decodeError));
+      } else {
+        args[key] = convertZObjectToValue(terminalValue(value));
+      }
+    }
+  }
+
+  return { type, label: ERROR_TYPE_LABELS[type], args, causes };
+}
+
+export function formatErrorChain(error: DecodedError, depth = 0): string {
+  const indent = "  ".repeat(depth);
+  const prefix = depth === 0 ? "" : "caused by: ";
+  const name = error.label ? `${error.type} (${error.label})` : error.type;
+  const args = Object.entries(error.args)
+    .map(([key, value]) => `${key}=${typeof value === "object" ? JSON.stringify(value, bigintReplacer) : String(value)}`)
+    .join(", ");
+
+  const lines = [`${indent}${prefix}${name}${args ? `: ${args}` : ""}`];
+  for (const cause of error.causes) {
+    lines.push(formatErrorChain(cause, depth + 1));
+  }
+  return lines.join("\n");
+}
+
+export function decodeMetadata(metadata: any): Record<string, unknown> {
+  const entries: Record<string, unknown> = {};
+  if (!metadata || typeof metadata !== "object") return entries;
+
+  // Older orchestrator versions put a bare Z5 into Z22K2.
+  if (isZ5(metadata)) {
+    entries.errors = metadata;
+    return entries;
+  }
+
+  for (const pair of listItems(metadata.K1)) {
+    const key = terminalValue(pair?.K1);
+    if (typeof key === "string") {
+      entries[key] = isZ5(pair.K2) ? pair.K2 : terminalValue(pair.K2);
+    }
+  }
+  return entries;
+}
+
+function statString(value: unknown): string | undefined {
+  return typeof value === "string" || typeof value === "number" ? String(value) : undefined;
+}
+
+export function extractExecutionStats(metadata: Record<string, unknown>): ExecutionStats {
+  const stats: ExecutionStats = {
+    orchestrationDuration: statString(metadata.orchestrationDuration),
+    evaluationDuration: statString(metadata.evaluationDuration),
+    orchestrationMemoryUsage: statString(metadata.orchestrationMemoryUsage),
+    evaluationMemoryUsage: statString(metadata.evaluationMemoryUsage),
+    orchestrationCpuUsage: statString(metadata.orchestrationCpuUsage),
+    evaluationCpuUsage: statString(metadata.evaluationCpuUsage),
+    orchestrationHost: statString(metadata.orchestrationHostname),
+    evaluationHost: statString(metadata.evaluationHostname),
+    implementationId: statString(metadata.implementationId),
+    implementationType: statString(metadata.implementationType),
+  };
+  stats.duration = stats.orchestrationDuration ?? stats.evaluationDuration;
+
+  for (const key of Object.keys(stats) as (keyof ExecutionStats)[]) {
+    if (stats[key] === undefined) delete stats[key];
+  }
+  return stats;
+}
+
+export function formatExecutionStats(stats: ExecutionStats): string {
+  const parts: string[] = [];
+  if (stats.duration) parts.push(`duration ${stats.duration}`);
+  if (stats.orchestrationMemoryUsage) parts.push(`orchestrator memory ${stats.orchestrationMemoryUsage}`);
+  if (stats.evaluationMemoryUsage) parts.push(`evaluator memory ${stats.evaluationMemoryUsage}`);
+  if (stats.implementationId) {
+    parts.push(
+      `implementation ${stats.implementationId}${stats.implementationType ? ` (${stats.implementationType})` : ""}`
+    );
+  }
+  if (stats.orchestrationHost) parts.push(`orchestrator ${stats.orchestrationHost}`);
+  if (stats.evaluationHost) parts.push(`evaluator ${stats.evaluationHost}`);
+  return parts.length > 0 ? parts.join(", ") : "no execution metadata";
+}
+
+/** The type of a result value; canonical strings are Strings (Z6) or, if they look like a ZID, references (Z9). */
+export function resultTypeOf(rawValue: any): ZType | undefined {
+  if (typeof rawValue === "string") return isReference(rawValue) ? "Z9" : "Z6";
+  if (Array.isArray(rawValue)) return { Z1K1: "Z7", Z7K1: "Z881", Z881K1: rawValue[0] };
+  if (rawValue && typeof rawValue === "object" && rawValue.Z1K1) return rawValue.Z1K1;
+  return undefined;
+}
+
+export function decodeEvaluationResult(response: any): DecodedEvaluationResult {
+  const raw = canonicalize(response);
+  if (!raw || typeof raw !== "object" || terminalValue(raw.Z1K1) !== "Z22") {
+    // The API did not return an evaluation result at all, e.g. a MediaWiki error.
+    const info = raw?.error?.info || raw?.error?.code;
+    return {
+      success: false,
+      value: undefined,
+      rawValue: raw,
+      error: {
+        type: "api-error",
+        label: "The API did not return a Z22 evaluation result",
+        args: info ? { info } : {},
+        causes: [],
+      },
+      metadata: {},
+      stats: {},
+    };
+  }
+
+  const metadata = decodeMetadata(raw.Z22K2);
+  const stats = extractExecutionStats(metadata);
+  const rawValue = raw.Z22K1;
+
+  if (isVoid(rawValue) || metadata.errors) {
+    return {
+      success: false,
+      value: undefined,
+      rawValue,
+      error: isZ5(metadata.errors)
+        ? decodeError(metadata.errors)
+        : { type: "Z24", label: "Void result without error details", args: {}, causes: [] },
+      metadata,
+      stats,
+    };
+  }
+
+  return {
+    success: true,
+    value: convertZObjectToValue(rawValue),
+    rawValue,
+    metadata,
+    stats,
+  };
+}
@@ -0,0 +1,97 @@
+// The code of the worker thread started by sandbox.ts. The worker runs this
+// function's source (with `eval`), so that it starts the same way from the
+// build and from the TypeScript sources; the function must therefore not use
+// anything from outside its body.
+//
+// The code is evaluated in a fresh vm context; the worker itself carries the
+// memory limit. No object of this realm is handed to the context: its global
+// has no prototype, and the arguments and the console shim are created by
+// code run inside it, so `x.constructor.constructor` yields the context's own
+// Function, which may not compile strings. Node's vm module is still not a
+// security boundary.
+
+interface SandboxJob {
+  code: string;
+  functionName: string;
+  args: unknown[];
+  timeoutMs: number;
+}
+
+export function sandboxWorkerMain(): void {
+  const { parentPort, workerData } = require("node:worker_threads") as typeof import("node:worker_threads");
+  const vm = require("node:vm") as typeof import("node:vm");
+  const { code, functionName, args, timeoutMs } = workerData as SandboxJob;
+
+  /** Writes a plain value (as converted from a ZObject) as a JavaScript expression. */
+  function toSource(value: unknown): string {
+    switch (typeof value) {
+      case "string":
+      case "boolean":
+        return JSON.stringify(value);
+      case "bigint":
+        return `${value}n`;
+      case "number":
+        return Object.is(value, -0) ? "-0" : String(value);
+      case "undefined":
+        return "undefined";
+    }
+    if (value === null) return "null";
+    if (Array.isArray(value)) return `[${value.map(toSource).join(", ")}]`;
+    if (typeof value === "object") {
+      const entries = Object.entries(value as Record<string, unknown>);
+      return `{${entries.map(([key, item]) => `${JSON.stringify(key)}: ${toSource(item)}`).join(", ")}}`;
+    }
+    throw new Error(`Cannot pass a ${typeof value} to the sandbox.`);
+  }
+
+  // Defines `console` and returns the array its output is collected in; the
+  // array stays out of reach of the implementation.
+  const CONSOLE_SHIM = `(() => {
+    const logs = [];
+    const format = (values) =>
+      values
+        .map((value) => {
+          if (typeof value === "string") return value;
+          if (typeof value === "bigint") return value + "n";
+          try {
+            return JSON.stringify(value);
+          } catch {
+            return String(value);
+          }
+        })
+        .join(" ");
+    const write = (...values) => {
+      logs.push(format(values));
+    };
+    globalThis.console = { log: write, error: write, warn: write, info: write };
+    return logs;
+  })()`;
+
+  const context = vm.createContext(Object.create(null), { codeGeneration: { strings: false, wasm: false } });
+  const collected = vm.runInContext(CONSOLE_SHIM, context);
+
+  /** Copies the collected output out of the context, keeping only strings. */
+  function readLogs(): string[] {
+    const logs: string[] = [];
+    for (let i = 0; i < collected.length; i++) {
+      if (typeof collected[i] === "string") logs.push(collected[i]);
+    }
+    return logs;
+  }
+
+  try {
+    const argsSource = `[${args.map(toSource).join(", ")}]`;
+    const value = vm.runInContext(`${code}\n;${functionName}(...${argsSource});`, context, {
+      timeout: timeoutMs,
+      filename: `${functionName}.js`,
+    });
+    try {
+      parentPort!.postMessage({ ok: true, value, logs: readLogs() });
+    } catch {
+      // Values that cannot be cloned (functions, symbols, ...) are sent as text.
+      parentPort!.postMessage({ ok: true, value: String(value), logs: readLogs(), uncloneable: true });
+    }
+  } catch (error: any) {
+    parentPort!.postMessage({ ok: false, error: String(error?.message || error), logs: readLogs() });
+  }
+}
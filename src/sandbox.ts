@@ -0,0 +1,90 @@
+import { Worker } from "node:worker_threads";
+import { sandboxWorkerMain } from "./sandbox-worker.js";
+
+// --- Local JavaScript sandbox ---
+//
+// Implementations run in a worker thread with a heap limit, inside a vm
+// context with a timeout. This keeps runaway code from blocking or exhausting
+// the server; it is not a security boundary against hostile code.
+
+export interface SandboxOptions {
+  timeoutMs: number;
+  memoryMb: number;
+  /** Terminates the worker when aborted. */
+  signal?: AbortSignal;
+}
+
+export interface SandboxResult {
+  ok: boolean;
+  value?: unknown;
+  error?: string;
+  logs: string[];
+  durationMs: number;
+}
+
+// Extra time for starting the worker before it is terminated from outside.
+const WORKER_STARTUP_MS = 1000;
+
+export function runJavaScriptInSandbox(
+  code: string,
+  functionName: string,
+  args: unknown[],
+  options: SandboxOptions
+): Promise<SandboxResult> {
+  const started = Date.now();
+
+  return new Promise((resolve) => {
+    let settled = false;
+    const finish = (result: Omit<SandboxResult, "durationMs">) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(watchdog);
+      options.signal?.removeEventListener("abort", onAbort);
+      worker.terminate().catch(() => {});
+      resolve({ ...result, durationMs: Date.now() - started });
+    };
+
+    // Started from source rather than from a file, so that it also runs from
+    // the TypeScript sources; see sandbox-worker.ts.
+    const worker = new Worker(`(${sandboxWorkerMain})()`, {
+      eval: true,
+      workerData: { code, functionName, args, timeoutMs: options.timeoutMs },
+      resourceLimits: {
+        maxOldGenerationSizeMb: options.memoryMb,
+        maxYoungGenerationSizeMb: Math.min(16, options.memoryMb),
+      },
+      stdout: true,
+      stderr: true,
+    });
+
+    const watchdog = setTimeout(
+      () => finish({ ok: false, error: `Timed out after ${options.timeoutMs} ms.`, logs: [] }),
+      options.timeoutMs + WORKER_STARTUP_MS
+    );
+
+    const onAbort = () => finish({ ok: false, error: "Cancelled.", logs: [] });
+    if (options.signal?.aborted) onAbort();
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    worker.once("message", (message: any) =>
+      finish(
+        message.ok
+          ? { ok: true, value: message.value, logs: message.logs }
+          : { ok: false, error: message.error, logs: message.logs }
+      )
+    );
+    worker.once("error", (error: any) => {
+      const outOfMemory = error?.code === "ERR_WORKER_OUT_OF_MEMORY";
+      finish({
+        ok: false,
+        error: outOfMemory
+          ? `Exceeded the memory limit of ${options.memoryMb} MB.`
+          : error?.message || String(error),
+        logs: [],
+      });
+    });
+    worker.once("exit", (exitCode) =>
+      finish({ ok: false, error: `The sandbox exited unexpectedly (code ${exitCode}).`, logs: [] })
+    );
+  });
+}
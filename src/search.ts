@@ -0,0 +1,263 @@
+import { config } from "./config.js";
+import { collectLanguageZids, labelTranslations, loadLanguages, LocalizedText, pickLabel } from "./languages.js";
+import { reportProgress } from "./request-context.js";
+import { loadTypeNames } from "./templates.js";
+import { getTesters } from "./testers.js";
+import { formatType, ZType } from "./type-converter.js";
+import { getImplementations, getMultipleDetails, searchFunctionsPage } from "./wikifunctions-api.js";
+import { listItems } from "./zobject.js";
+
+// --- Function search ---
+//
+// The search API only matches labels, so signature filters are applied to
+// the fetched function definitions. One page of filtered results may span
+// several API pages; the continuation token records the API page and the
+// position within it at which to resume.
+
+export type FunctionSortOrder = "relevance" | "implementations" | "testers";
+
+export interface FunctionSearchOptions {
+  query: string;
+  language?: string;
+  inputTypes?: string[];
+  outputType?: string;
+  argumentCount?: number;
+  sort?: FunctionSortOrder;
+  limit?: number;
+  continueToken?: string;
+}
+
+export interface FunctionArgumentSummary {
+  key: string;
+  name: string;
+  type: ZType;
+  typeName: string;
+}
+
+export interface FunctionSummary {
+  zid: string;
+  label: LocalizedText | null;
+  description: LocalizedText | null;
+  inputs: FunctionArgumentSummary[];
+  outputType: ZType;
+  outputTypeName: string;
+  implementations: number;
+  testers: number;
+}
+
+export interface RankedFunctionSummary extends FunctionSummary {
+  /** Position in the search API's relevance order, starting at 1. */
+  rank: number;
+}
+
+export interface FunctionSearchResult {
+  matches: RankedFunctionSummary[];
+  scanned: number;
+  continueToken?: string;
+}
+
+interface SearchPosition {
+  /** The API continuation value of the page, absent for the first page. */
+  c?: string;
+  /** Results of that page already consumed. */
+  s: number;
+  /** Search results consumed overall, for ranks. */
+  r: number;
+}
+
+const MAX_LIMIT = 50;
+const API_PAGE_SIZE = 50;
+// Strict filters could otherwise page through the whole search index.
+const MAX_API_PAGES_PER_CALL = 4;
+
+function encodeToken(position: SearchPosition): string {
+  return Buffer.from(JSON.stringify(position)).toString("base64url");
+}
+
+function decodeToken(token: string): SearchPosition {
+  try {
+    const position = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+    if (typeof position?.s === "number" && typeof position?.r === "number") return position;
+  } catch {
+    // Reported below.
+  }
+  throw new Error("Invalid continuation token; pass the value returned by the previous search unchanged.");
+}
+
+function typeMatches(type: ZType, wanted: string): boolean {
+  const normalized = wanted.replace(/\s+/g, "");
+  if (formatType(type) === normalized) return true;
+  // A generic type function such as Z881 matches every instance of it.
+  return !!type && typeof type === "object" && type.Z7K1 === normalized;
+}
+
+function matchesFilters(summary: FunctionSummary, options: FunctionSearchOptions): boolean {
+  if (options.argumentCount !== undefined && summary.inputs.length !== options.argumentCount) return false;
+  if (options.outputType && !typeMatches(summary.outputType, options.outputType)) return false;
+
+  // Every requested input type must be taken by a different argument.
+  const unused = [...summary.inputs];
+  for (const wanted of options.inputTypes || []) {
+    const index = unused.findIndex((input) => typeMatches(input.type, wanted));
+    if (index === -1) return false;
+    unused.splice(index, 1);
+  }
+  return true;
+}
+
+/** Summarises function definitions with labels and type names in `language`. */
+export async function summarizeFunctions(functionDefs: any[], language: string = config.language): Promise<FunctionSummary[]> {
+  const argumentsOf = (funcDef: any): any[] => listItems(funcDef?.Z2K2?.Z8K1).filter(Boolean);
+
+  const typeName = await loadTypeNames(
+    functionDefs.flatMap((funcDef) => [funcDef?.Z2K2?.Z8K2, ...argumentsOf(funcDef).map((arg) => arg?.Z17K1)]),
+    language
+  );
+  await loadLanguages(
+    collectLanguageZids(
+      ...functionDefs.flatMap((funcDef) => [
+        funcDef?.Z2K3?.Z12K1,
+        funcDef?.Z2K5?.Z12K1,
+        ...argumentsOf(funcDef).map((arg) => arg?.Z17K3?.Z12K1),
+      ])
+    )
+  );
+
+  return functionDefs.map((funcDef) => ({
+    zid: funcDef?.Z2K1?.Z6K1,
+    label: pickLabel(funcDef?.Z2K3?.Z12K1, language),
+    description: pickLabel(funcDef?.Z2K5?.Z12K1, language),
+    inputs: argumentsOf(funcDef).map((arg) => ({
+      key: arg.Z17K2,
+      name: pickLabel(arg?.Z17K3?.Z12K1, language)?.text ?? arg.Z17K2,
+      type: arg.Z17K1,
+      typeName: typeName(arg.Z17K1),
+    })),
+    outputType: funcDef?.Z2K2?.Z8K2,
+    outputTypeName: typeName(funcDef?.Z2K2?.Z8K2),
+    implementations: getImplementations(funcDef).length,
+    testers: getTesters(funcDef).length,
+  }));
+}
+
+/** e.g. "Z10000(first: Z6 (String), second: Z6 (String)) → Z6 (String)" */
+export function formatSignature(summary: FunctionSummary): string {
+  const inputs = summary.inputs.map((input) => `${input.name}: ${formatType(input.type)} (${input.typeName})`);
+  return `${summary.zid}(${inputs.join(", ")}) → ${formatType(summary.outputType)} (${summary.outputTypeName})`;
+}
+
+export function formatFunctionSummary(summary: FunctionSummary): string {
+  const label = summary.label ? `${summary.label.text} [${summary.label.language}]` : "(no label)";
+  const lines = [
+    `**${summary.zid}** ${label} — ${summary.implementations} implementation(s), ${summary.testers} tester(s)`,
+    formatSignature(summary),
+  ];
+  if (summary.description) {
+    lines.push(`${summary.description.text} [${summary.description.language}]`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Searches functions by label and filters them by signature. Matches are
+ * returned in relevance order, or sorted by their number of connected
+ * implementations or testers; sorting applies within the returned page.
+ */
+export async function searchFunctions(options: FunctionSearchOptions): Promise<FunctionSearchResult> {
+  const language = options.language ?? config.language;
+  const limit = Math.max(1, Math.min(options.limit ?? 10, MAX_LIMIT));
+  const filtered =
+    options.argumentCount !== undefined || !!options.outputType || (options.inputTypes?.length ?? 0) > 0;
+
+  let position: SearchPosition = options.continueToken ? decodeToken(options.continueToken) : { s: 0, r: 0 };
+  const matches: RankedFunctionSummary[] = [];
+  let scanned = 0;
+  let continueToken: string | undefined;
+
+  for (let pages = 0; ; pages++) {
+    if (pages === MAX_API_PAGES_PER_CALL) {
+      continueToken = encodeToken(position);
+      break;
+    }
+
+    await reportProgress(`Searching for '${options.query}' (page ${pages + 1})`);
+    const page = await searchFunctionsPage(options.query, language, API_PAGE_SIZE, position.c);
+    // Without filters every candidate is a match, so only as many as still
+    // needed have to be fetched.
+    const candidates = page.results
+      .slice(position.s)
+      .slice(0, filtered ? undefined : limit - matches.length);
+    const zids: string[] = candidates.map((hit: any) => hit?.page_title).filter(Boolean);
+    await reportProgress(`Fetching ${zids.length} functions`);
+    const details = await getMultipleDetails(zids);
+    const functions = zids.filter((zid) => details[zid]?.Z2K2?.Z1K1 === "Z8");
+    const summaries = new Map(
+      (await summarizeFunctions(functions.map((zid) => details[zid]), language)).map((summary, i) => [
+        functions[i],
+        summary,
+      ])
+    );
+
+    let consumed = position.s;
+    let rank = position.r;
+    for (const hit of candidates) {
+      if (matches.length === limit) break;
+      consumed++;
+      rank++;
+      scanned++;
+      const summary = summaries.get(hit?.page_title);
+      if (summary && matchesFilters(summary, options)) {
+        matches.push({ ...summary, rank });
+      }
+    }
+
+    if (consumed < page.results.length) {
+      continueToken = encodeToken({ c: position.c, s: consumed, r: rank });
+      break;
+    }
+    if (page.continueFrom === undefined) break;
+    position = { c: page.continueFrom, s: 0, r: rank };
+    if (matches.length === limit) {
+      continueToken = encodeToken(position);
+      break;
+    }
+  }
+
+  if (options.sort === "implementations" || options.sort === "testers") {
+    const count = (summary: FunctionSummary) =>
+      options.sort === "implementations" ? summary.implementations : summary.testers;
+    matches.sort((a, b) => count(b) - count(a) || a.rank - b.rank);
+  }
+
+  return { matches, scanned, continueToken };
+}
+
+export type FunctionResolution =
+  | { status: "found"; zid: string }
+  | { status: "ambiguous"; candidates: FunctionSummary[] }
+  | { status: "none" };
+
+/**
+ * Decides which function a query refers to. The only function among the
+ * search results, or the only one with a label (in any language) equal to
+ * the query, is taken; otherwise the candidates are returned so that the
+ * caller can choose instead of getting whichever ranks first.
+ */
+export async function resolveFunctionQuery(query: string, language: string = config.language): Promise<FunctionResolution> {
+  const page = await searchFunctionsPage(query, language);
+  const zids: string[] = page.results.map((hit: any) => hit?.page_title).filter(Boolean);
+  const details = await getMultipleDetails(zids);
+  const functions = zids.filter((zid) => details[zid]?.Z2K2?.Z1K1 === "Z8");
+
+  if (functions.length === 0) return { status: "none" };
+  if (functions.length === 1) return { status: "found", zid: functions[0] };
+
+  const wanted = query.trim().toLowerCase();
+  const exact = functions.filter((zid) =>
+    Object.values(labelTranslations(details[zid]?.Z2K3?.Z12K1)).some((label) => label.trim().toLowerCase() === wanted)
+  );
+  if (exact.length === 1) return { status: "found", zid: exact[0] };
+
+  const candidates = exact.length > 1 ? exact : functions;
+  return { status: "ambiguous", candidates: await summarizeFunctions(candidates.map((zid) => details[zid]), language) };
+}
@@ -0,0 +1,305 @@
+import {
+  collectTypeZids,
+  convertValueToZObject,
+  formatType,
+  parseTypeExpression,
+  ZType,
+} from "./type-converter.js";
+import { config } from "./config.js";
+import { resolveLabels } from "./explain.js";
+import { describeRequestError } from "./http-client.js";
+import { collectLanguageZids, fallbackChain, labelTranslations, loadLanguages, pickLabel } from "./languages.js";
+import { loadTypeConverters } from "./type-schema.js";
+import { canonicalize, listItems, terminalValue } from "./zobject.js";
+
+// --- Function call templates ---
+
+/**
+ * Fetches the labels of every type referenced by `types` and returns a
+ * function naming a type in `language`; generic types read as e.g.
+ * "Typed list(Integer)".
+ */
+export async function loadTypeNames(types: ZType[], language: string = config.language): Promise<(type: ZType) => string> {
+  const typeZids = Array.from(new Set(types.flatMap((type) => (type ? collectTypeZids(type) : []))));
+  const typeNameMap = (await resolveLabels(typeZids, [], language)).zids;
+
+  const typeName = (zType: ZType): string => {
+    // Generic types may be nested in either form.
+    const type = canonicalize(zType);
+    if (typeof type === "string") return typeNameMap[type] || "Unknown";
+    const functionZid = type?.Z7K1;
+    if (typeof functionZid !== "string") return "Unknown";
+    const args = Object.keys(type)
+      .filter((key) => key.startsWith(`${functionZid}K`))
+      .map((key) => typeName(type[key]));
+    return `${typeNameMap[functionZid] || "Unknown"}(${args.join(", ")})`;
+  };
+  return typeName;
+}
+
+/** Explains why a ZObject that is not a function (Z8) cannot be called. */
+export async function explainNotCallable(zid: string, persistent: any, language: string = config.language): Promise<string> {
+  const value = persistent?.Z2K2;
+  const type = terminalValue(value?.Z1K1);
+  switch (type) {
+    case "Z14": {
+      const functionZid = terminalValue(value?.Z14K1);
+      return `${zid} is an implementation of ${functionZid}. Implementations are not called directly; get the template of the function with function_zid "${functionZid}", or use run_tests or run_code_locally to run this implementation.`;
+    }
+    case "Z20": {
+      const functionZid = terminalValue(value?.Z20K1);
+      return `${zid} is a tester of ${functionZid}. Testers are not called; run them with run_tests for ${functionZid}.`;
+    }
+    case "Z4":
+      return `${zid} is a type. Types describe values and are not called; pass values of this type to a function that takes ${zid}.`;
+    default: {
+      if (!type) return `${zid} has no value that could be called.`;
+      const typeName = (await loadTypeNames([type], language))(type);
+      const described = typeName === "Unknown" ? formatType(type) : `${typeName} (${formatType(type)})`;
+      return `${zid} is an object of type ${described}, not a function (Z8). Only functions can be called.`;
+    }
+  }
+}
+
+/**
+ * Builds a call template whose labels are in `language` (or the nearest
+ * fallback). Every label carries the language it was actually taken from, and
+ * each argument lists its name in all languages so that values can be given
+ * by any of them.
+ */
+export async function buildFunctionCallTemplate(funcDef: any, language: string = config.language): Promise<any> {
+  try {
+    const functionId = funcDef?.Z2K1?.Z6K1;
+    const outputType = funcDef?.Z2K2?.Z8K2;
+    const argumentDefinitions: any[] = listItems(funcDef?.Z2K2?.Z8K1);
+    const typeName = await loadTypeNames(
+      argumentDefinitions.map((arg) => arg?.Z17K1),
+      language
+    );
+    await loadLanguages(
+      collectLanguageZids(
+        funcDef?.Z2K3?.Z12K1,
+        funcDef?.Z2K5?.Z12K1,
+        ...argumentDefinitions.map((arg) => arg?.Z17K3?.Z12K1)
+      )
+    );
+
+    const functionName = pickLabel(funcDef?.Z2K3?.Z12K1, language);
+    const functionDesc = pickLabel(funcDef?.Z2K5?.Z12K1, language);
+    const callTemplate: Record<string, any> = {
+      _function_name: functionName?.text ?? functionId,
+      _function_name_language: functionName?.language,
+      _function_description: functionDesc?.text ?? "N/A",
+      _function_description_language: functionDesc?.language,
+      _output_type: outputType,
+      Z1K1: "Z7",
+      Z7K1: functionId,
+    };
+
+    for (const argDef of argumentDefinitions) {
+      if (!argDef) continue;
+      const argumentKey = argDef.Z17K2;
+      const requiredType = argDef.Z17K1;
+      const argumentLabel = pickLabel(argDef?.Z17K3?.Z12K1, language);
+      const argumentName = argumentLabel?.text ?? argumentKey;
+
+      if (argumentKey) {
+        callTemplate[argumentKey] = {
+          name: argumentName,
+          name_language: argumentLabel?.language,
+          names: labelTranslations(argDef?.Z17K3?.Z12K1),
+          required_type: `${formatType(requiredType)} (${typeName(requiredType)})`,
+          value: `<Provide a value for '${argumentName}'>`,
+        };
+      }
+    }
+
+    return callTemplate;
+  } catch (error: any) {
+    return { error: `Could not build template: ${describeRequestError(error)}` };
+  }
+}
+
+function parseRequiredType(requiredType: unknown): ZType | null {
+  // A generic type may also be given directly as its Z7 object.
+  if (requiredType && typeof requiredType === "object") return requiredType as ZType;
+  if (!requiredType || typeof requiredType !== "string") return null;
+  // Expected format: "Z123 (TypeName)" or "Z881(Z16683) (Typed list(Integer))"
+  return parseTypeExpression(requiredType);
+}
+
+/** All names an argument can be given by: its label in every language. */
+export function argumentNames(argDescriptor: any): string[] {
+  const names = [argDescriptor?.name, ...Object.values(argDescriptor?.names || {})];
+  return Array.from(new Set(names.filter((name): name is string => typeof name === "string" && name !== "")));
+}
+
+// The argument's name in `language`, for messages.
+function argumentDisplayName(argDescriptor: any, language: string): string {
+  const names = argDescriptor?.names || {};
+  const code = fallbackChain(language).find((candidate) => typeof names[candidate] === "string");
+  return code ? names[code] : (argDescriptor?.name || "").toString();
+}
+
+function isAlreadyZObject(value: any): boolean {
+  return value && typeof value === "object" && typeof value.Z1K1 === "string";
+}
+
+// --- Argument validation ---
+
+export type ArgumentProblemKind = "missing" | "invalid_value" | "unknown_argument" | "duplicate";
+
+export interface ArgumentProblem {
+  /** The argument key, or the name as given for unknown arguments. */
+  argument: string;
+  /** The argument's name, if it is a known argument. */
+  name?: string;
+  kind: ArgumentProblemKind;
+  message: string;
+  expectedType?: string;
+  /** Closest known argument names, for unknown ones. */
+  suggestions?: string[];
+}
+
+/** Every problem found with the values of a call, so that they can be fixed in one go. */
+export class ArgumentValidationError extends Error {
+  constructor(readonly problems: ArgumentProblem[]) {
+    super(`The arguments are not valid:\n- ${problems.map((problem) => problem.message).join("\n- ")}`);
+    this.name = "ArgumentValidationError";
+  }
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** The candidates closest to `name`, ignoring case; only reasonably close ones. */
+function closestNames(name: string, candidates: string[]): string[] {
+  const wanted = name.trim().toLowerCase();
+  const maxDistance = Math.max(2, Math.floor(wanted.length / 3));
+  const scored = candidates
+    .map((candidate) => ({ candidate, distance: editDistance(wanted, candidate.toLowerCase()) }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance);
+  const best = scored[0]?.distance;
+  return scored.filter(({ distance }) => distance === best).map(({ candidate }) => candidate);
+}
+
+/** A ZObject given as a value whose type plainly differs from the required one. */
+function typeMismatch(value: any, requiredType: ZType): string | null {
+  const type = value.Z1K1;
+  // Calls, argument references and references are resolved by the orchestrator.
+  if (["Z7", "Z9", "Z18"].includes(type) || requiredType === "Z1") return null;
+  const required = formatType(requiredType);
+  const generic = typeof requiredType === "object" ? (requiredType as any).Z7K1 : undefined;
+  return type === required || type === generic ? null : `is a ZObject of type ${type}, but ${required} is required`;
+}
+
+/**
+ * Builds the Z7 call for a template and values. Every value is checked
+ * against its argument's type before anything is sent; unknown, duplicate and
+ * missing arguments and invalid values are all reported together as an
+ * `ArgumentValidationError`.
+ */
+export async function transformTemplateToFunctionCall(
+  template: any,
+  providedValues: Record<string, unknown> = {},
+  language: string = config.language
+): Promise<any> {
+  if (!template || typeof template !== "object") {
+    throw new Error("Invalid template object");
+  }
+
+  const call: Record<string, any> = {
+    Z1K1: "Z7",
+    Z7K1: template.Z7K1,
+  };
+  const problems: ArgumentProblem[] = [];
+
+  const argumentKeys = Object.keys(template).filter(
+    (k) => /^Z\d+K\d+$/.test(k) && template[k] && typeof template[k] === "object"
+  );
+
+  // Every given name must belong to exactly one argument.
+  const givenFor = new Map<string, string[]>();
+  for (const given of Object.keys(providedValues)) {
+    const argKey = argumentKeys.find((key) => key === given || argumentNames(template[key]).includes(given));
+    if (argKey) {
+      givenFor.set(argKey, [...(givenFor.get(argKey) || []), given]);
+      continue;
+    }
+    const candidates = argumentKeys.flatMap((key) => [key, ...argumentNames(template[key])]);
+    const suggestions = closestNames(given, candidates);
+    problems.push({
+      argument: given,
+      kind: "unknown_argument",
+      message: suggestions.length
+        ? `Unknown argument '${given}'; did you mean ${suggestions.map((name) => `'${name}'`).join(" or ")}?`
+        : `Unknown argument '${given}'; the arguments are ${argumentKeys.map((key) => `'${argumentDisplayName(template[key], language) || key}' (${key})`).join(", ")}.`,
+      suggestions,
+    });
+  }
+
+  // Values are checked first; the types they are converted to are then loaded in one batch.
+  const conversions: { argKey: string; provided: unknown; requiredType: ZType; problem: (message: string) => void }[] = [];
+  for (const argKey of argumentKeys) {
+    const argDescriptor = template[argKey];
+    const requiredType = parseRequiredType(argDescriptor?.required_type);
+    const nameKey = argumentDisplayName(argDescriptor, language);
+    const given = givenFor.get(argKey) || [];
+    const problem = (kind: ArgumentProblemKind, message: string) =>
+      problems.push({
+        argument: argKey,
+        name: nameKey || undefined,
+        kind,
+        message: `'${nameKey}' (${argKey}): ${message}`,
+        expectedType: requiredType ? formatType(requiredType) : undefined,
+      });
+
+    if (given.length > 1) {
+      problem("duplicate", `given more than once, as ${given.map((name) => `'${name}'`).join(" and ")}; give it once.`);
+      continue;
+    }
+    // A value given by key or by name in any language replaces the template's value.
+    const provided = given.length === 1 ? providedValues[given[0]] : argDescriptor?.value;
+
+    if (typeof provided === "string" && /<\s*Provide\b/i.test(provided)) {
+      problem("missing", "no value given; provide it in `values`.");
+      continue;
+    }
+    if (!requiredType) {
+      problem("invalid_value", "could not determine the required type from the template.");
+      continue;
+    }
+    if (isAlreadyZObject(provided)) {
+      const mismatch = typeMismatch(provided, requiredType);
+      if (mismatch) problem("invalid_value", `the value ${mismatch}.`);
+      else call[argKey] = provided;
+      continue;
+    }
+    conversions.push({ argKey, provided, requiredType, problem: (message) => problem("invalid_value", message) });
+  }
+
+  // Types without a native converter are built from their Z4 definition.
+  await loadTypeConverters(conversions.map((conversion) => conversion.requiredType));
+  for (const { argKey, provided, requiredType, problem } of conversions) {
+    try {
+      call[argKey] = convertValueToZObject(provided, requiredType);
+    } catch (error: any) {
+      problem(error?.message || String(error));
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ArgumentValidationError(problems);
+  }
+  return call;
+}
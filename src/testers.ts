@@ -0,0 +1,172 @@
+import { mapWithConcurrency } from "./concurrency.js";
+import { decodeEvaluationResult, formatErrorChain } from "./result-decoder.js";
+import { bigintReplacer, convertZObjectToValue } from "./type-converter.js";
+import { describeRequestError } from "./http-client.js";
+import { collectLanguageZids, loadLanguages, pickLabel } from "./languages.js";
+import { reportProgress } from "./request-context.js";
+import { getMultipleDetails, runWikifunctionCall } from "./wikifunctions-api.js";
+import { isReference, listItems, terminalValue } from "./zobject.js";
+
+// --- Testers (Z20) ---
+//
+// A tester holds a function call (Z20K2) and a validator call (Z20K3) whose
+// first argument is left out: it is filled with the result of the call, and
+// the tester passes if the validator returns true.
+
+export type TesterStatus = "pass" | "fail" | "error";
+
+export interface TesterReport {
+  testerId: string;
+  label: string;
+  status: TesterStatus;
+  actual?: unknown;
+  expected?: unknown;
+  details?: string;
+}
+
+// Testers are run a few at a time to keep the load on the orchestrator low.
+const MAX_CONCURRENT_TESTERS = 2;
+
+export function getTesters(functionData: any): string[] {
+  return listItems(functionData?.Z2K2?.Z8K3).map(terminalValue).filter(isReference);
+}
+
+/**
+ * Replaces the called function by an inline copy whose only implementation is
+ * `implementationId`, so that the orchestrator cannot pick another one.
+ */
+export function pinImplementation(call: any, functionId: string, functionData: any, implementationId: string): any {
+  if (terminalValue(call?.Z7K1) !== functionId) return call;
+  return {
+    ...call,
+    Z7K1: { ...functionData.Z2K2, Z8K4: ["Z14", implementationId] },
+  };
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "";
+  return typeof value === "object" && value !== null ? JSON.stringify(value, bigintReplacer) : String(value);
+}
+
+async function runTester(
+  testerId: string,
+  tester: any,
+  functionId: string,
+  functionData: any,
+  implementationId?: string
+): Promise<TesterReport> {
+  const label = pickLabel(tester?.Z2K3?.Z12K1)?.text ?? testerId;
+  const call = tester?.Z2K2?.Z20K2;
+  const validator = tester?.Z2K2?.Z20K3;
+  if (!call || !validator) {
+    return { testerId, label, status: "error", details: "Tester has no call (Z20K2) or validator (Z20K3)." };
+  }
+
+  const validatorFunction = terminalValue(validator.Z7K1);
+  const expectedKey = Object.keys(validator).find((key) => key !== "Z1K1" && key !== "Z7K1");
+  const expected = expectedKey ? convertZObjectToValue(validator[expectedKey]) : undefined;
+
+  try {
+    const testCall = implementationId
+      ? pinImplementation(call, functionId, functionData, implementationId)
+      : call;
+    const result = decodeEvaluationResult((await runWikifunctionCall(testCall)).raw);
+    if (!result.success) {
+      return {
+        testerId,
+        label,
+        status: "error",
+        expected,
+        details: result.error ? formatErrorChain(result.error) : "The call failed.",
+      };
+    }
+
+    const validation = decodeEvaluationResult(
+      (await runWikifunctionCall({ ...validator, [`${validatorFunction}K1`]: result.rawValue })).raw
+    );
+    if (!validation.success) {
+      return {
+        testerId,
+        label,
+        status: "error",
+        actual: result.value,
+        expected,
+        details: `Validator ${validatorFunction} failed: ${validation.error ? formatErrorChain(validation.error) : "unknown error"}`,
+      };
+    }
+
+    const passed = validation.value === true || validation.value === "Z41";
+    return {
+      testerId,
+      label,
+      status: passed ? "pass" : "fail",
+      actual: result.value,
+      expected,
+      details: result.stats.duration ? `duration ${result.stats.duration}` : undefined,
+    };
+  } catch (error: any) {
+    return { testerId, label, status: "error", expected, details: describeRequestError(error) };
+  }
+}
+
+export async function runTesters(
+  functionId: string,
+  options: { implementationId?: string } = {}
+): Promise<{ functionLabel: string; reports: TesterReport[] }> {
+  const functionData = (await getMultipleDetails([functionId]))[functionId];
+  if (!functionData) {
+    throw new Error(`Function ${functionId} was not found.`);
+  }
+  if (functionData?.Z2K2?.Z1K1 !== "Z8") {
+    throw new Error(`${functionId} is not a function.`);
+  }
+
+  const { implementationId } = options;
+  if (implementationId) {
+    const implementation = (await getMultipleDetails([implementationId]))[implementationId];
+    if (implementation?.Z2K2?.Z1K1 !== "Z14") {
+      throw new Error(`${implementationId} is not an implementation.`);
+    }
+    if (terminalValue(implementation.Z2K2.Z14K1) !== functionId) {
+      throw new Error(`${implementationId} implements ${terminalValue(implementation.Z2K2.Z14K1)}, not ${functionId}.`);
+    }
+  }
+
+  const testerIds = getTesters(functionData);
+  await reportProgress(`Fetching ${testerIds.length} testers`);
+  const testers = await getMultipleDetails(testerIds);
+  await loadLanguages(
+    collectLanguageZids(functionData?.Z2K3?.Z12K1, ...testerIds.map((testerId) => testers[testerId]?.Z2K3?.Z12K1))
+  );
+  let finished = 0;
+  const reports = await mapWithConcurrency(testerIds, MAX_CONCURRENT_TESTERS, async (testerId) => {
+    const report = testers[testerId]
+      ? await runTester(testerId, testers[testerId], functionId, functionData, implementationId)
+      : ({ testerId, label: testerId, status: "error", details: "Tester could not be fetched." } satisfies TesterReport);
+    await reportProgress(`Ran ${++finished} of ${testerIds.length} testers`);
+    return report;
+  });
+
+  return { functionLabel: pickLabel(functionData?.Z2K3?.Z12K1)?.text ?? functionId, reports };
+}
+
+export function formatTesterTable(reports: TesterReport[]): string {
+  const escape = (text: string) => text.replace(/\|/g, "\\|").replace(/\n/g, "<br>");
+  const rows = reports.map((report) =>
+    [
+      report.testerId,
+      report.label,
+      report.status.toUpperCase(),
+      formatValue(report.actual),
+      formatValue(report.expected),
+      report.details ?? "",
+    ]
+      .map((cell) => escape(cell))
+      .join(" | ")
+  );
+  return [
+    "| Tester | Label | Result | Actual | Expected | Details |",
+    "| --- | --- | --- | --- | --- | --- |",
+    ...rows.map((row) => `| ${row} |`),
+  ].join("\n");
+}
@@ -0,0 +1,333 @@
+import { z } from "zod";
+import { DecodedError } from "./result-decoder.js";
+import { bigintReplacer } from "./type-converter.js";
+
+// --- Tool output schemas ---
+//
+// Tools with an output schema return `structuredContent` matching it next to
+// their text content, so that clients do not have to parse JSON out of text.
+
+const zobjectSchema = z.record(z.any());
+
+const decodedErrorSchema: z.ZodType<DecodedError> = z.lazy(() =>
+  z.object({
+    type: z.string(),
+    label: z.string().optional(),
+    args: z.record(z.unknown()),
+    causes: z.array(decodedErrorSchema),
+  })
+);
+
+export const findCodeOutput = {
+  query: z.string(),
+  functions: z
+    .array(
+      z.object({
+        zid: z.string(),
+        label: z.string(),
+        label_language: z.string().optional(),
+        search_rank: z.number(),
+        implementations: z.array(
+          z.object({
+            zid: z.string(),
+            programming_language: z.string(),
+            code: z.string(),
+          })
+        ),
+      })
+    )
+    .describe("Functions with at least one code implementation, in search order."),
+};
+
+export const getTemplateOutput = {
+  status: z
+    .enum(["template", "ambiguous", "not_found", "not_callable"])
+    .describe("'template' if a template was built; otherwise why not."),
+  function_zid: z.string().optional(),
+  template: zobjectSchema
+    .optional()
+    .describe("The call template; pass it unchanged as `template` to run_template."),
+  candidates: z
+    .array(
+      z.object({
+        zid: z.string(),
+        label: z.string().optional(),
+        signature: z.string(),
+        implementations: z.number(),
+        testers: z.number(),
+      })
+    )
+    .optional()
+    .describe("The functions an ambiguous query matches."),
+  message: z.string().optional(),
+};
+
+const argumentProblemSchema = z.object({
+  argument: z.string().describe("The argument key, or the name as given for unknown arguments."),
+  name: z.string().optional(),
+  kind: z.enum(["missing", "invalid_value", "unknown_argument", "duplicate"]),
+  message: z.string(),
+  expected_type: z.string().optional(),
+  suggestions: z.array(z.string()).optional().describe("Closest known argument names, for unknown ones."),
+});
+
+export const runTemplateOutput = {
+  call: zobjectSchema.optional().describe("The Z7 function call that was run; absent if the arguments were not valid."),
+  success: z.boolean(),
+  value: z.any().optional().describe("The result converted to plain JSON; integers are given as strings."),
+  raw_value: z.any().optional().describe("The result as a ZObject."),
+  result_type: z.string().optional().describe("The type of the result, e.g. 'Z16683' or 'Z881(Z6)'."),
+  result_explained: z
+    .string()
+    .optional()
+    .describe("For results that are not plain values: the result as an outline with every ZID and key labelled."),
+  error: decodedErrorSchema.optional().describe("The Z5 error chain if the call failed."),
+  stats: z.record(z.string()).describe("Execution statistics from the result metadata."),
+  problems: z
+    .array(argumentProblemSchema)
+    .optional()
+    .describe("Every problem with the given values; the call was not run."),
+  run_id: z.number().optional().describe("The ID of the run in the history, for replay_run and export_run_as_tester."),
+};
+
+export const searchFunctionsOutput = {
+  query: z.string(),
+  matches: z.array(
+    z.object({
+      rank: z.number().describe("Position in the search API's relevance order, starting at 1."),
+      zid: z.string(),
+      label: z.string().optional(),
+      label_language: z.string().optional(),
+      description: z.string().optional(),
+      inputs: z.array(
+        z.object({
+          key: z.string(),
+          name: z.string(),
+          type: z.string().describe("The argument type, e.g. 'Z6' or 'Z881(Z6)'."),
+          type_label: z.string(),
+        })
+      ),
+      output_type: z.string(),
+      output_type_label: z.string(),
+      implementations: z.number().describe("The number of connected implementations."),
+      testers: z.number().describe("The number of connected testers."),
+    })
+  ),
+  scanned: z.number().describe("The number of search results looked at for this page."),
+  continue: z
+    .string()
+    .optional()
+    .describe("Pass as `continue` to search_functions to get the next page; absent on the last page."),
+};
+
+export const composeCallOutput = {
+  call: zobjectSchema.describe("The nested Z7 function call."),
+  output_type: z.string().describe("The type the call returns, e.g. 'Z6' or 'Z881(Z6)'."),
+  dry_run: z.boolean().describe("Whether the call was only built and type-checked."),
+  success: z.boolean().optional().describe("Whether the call succeeded; absent for dry runs."),
+  value: z.any().optional().describe("The result converted to plain JSON; integers are given as strings."),
+  raw_value: z.any().optional().describe("The result as a ZObject."),
+  error: decodedErrorSchema.optional().describe("The Z5 error chain if the call failed."),
+  stats: z.record(z.string()).optional().describe("Execution statistics from the result metadata."),
+};
+
+export const runTestsOutput = {
+  function_zid: z.string(),
+  function_label: z.string(),
+  implementation_zid: z.string().optional(),
+  passed: z.number(),
+  total: z.number(),
+  testers: z.array(
+    z.object({
+      zid: z.string(),
+      label: z.string(),
+      status: z.enum(["pass", "fail", "error"]),
+      actual: z.any().optional(),
+      expected: z.any().optional(),
+      details: z.string().optional(),
+    })
+  ),
+};
+
+export const runCodeLocallyOutput = {
+  function_zid: z.string(),
+  implementation_zid: z.string(),
+  args: z.array(z.any()).describe("The arguments as passed to the JavaScript function."),
+  local: z.object({
+    ok: z.boolean(),
+    value: z.any().optional(),
+    error: z.string().optional(),
+    logs: z.array(z.string()).describe("Console output of the implementation."),
+    duration_ms: z.number(),
+  }),
+  local_conversion_error: z
+    .string()
+    .optional()
+    .describe("Set if the local result does not convert to the function's output type."),
+  remote: z
+    .object({
+      success: z.boolean(),
+      value: z.any().optional(),
+      error: z.string().optional(),
+    })
+    .optional()
+    .describe("The remote run, if compare_remote was set."),
+  identical: z.boolean().optional().describe("Whether the local and remote results are identical."),
+};
+
+export const listImplementationsOutput = {
+  function_zid: z.string(),
+  function_label: z.string().optional(),
+  implementations: z.array(
+    z.object({
+      zid: z.string(),
+      label: z.string().optional(),
+      label_language: z.string().optional(),
+      kind: z.enum(["code", "composition", "builtin", "unknown"]),
+      connected: z.boolean().describe("Whether the function lists the implementation (Z8K4), so that it may run."),
+      programming_language: z.string().optional(),
+      composition: z.string().optional().describe("The composition as a nested call expression."),
+      builtin: z.string().optional(),
+    })
+  ),
+  warnings: z.array(z.string()),
+};
+
+export const explainZObjectOutput = {
+  text: z.string().describe("The ZObject as an outline in which every key and ZID is followed by its label."),
+  zobject: z.any().describe("The ZObject in canonical form."),
+  labels: z.object({
+    zids: z.record(z.string()).describe("Labels of the referenced ZIDs, e.g. Z1002 → 'English'."),
+    keys: z.record(z.string()).describe("Labels of the keys, e.g. Z11K1 → 'language'."),
+  }),
+};
+
+export const functionDependenciesOutput = {
+  root: z.string(),
+  max_depth: z.number(),
+  functions: z
+    .array(
+      z.object({
+        zid: z.string(),
+        label: z.string().optional(),
+        depth: z.number().describe("The number of calls between the root and this function."),
+        status: z
+          .enum(["expanded", "depth_limit", "not_found", "not_function"])
+          .describe("'depth_limit' if it calls functions that were not followed."),
+        implementations: z.array(
+          z.object({
+            zid: z.string(),
+            label: z.string().optional(),
+            kind: z.enum(["code", "composition", "builtin", "unknown"]),
+            programming_language: z.string().optional(),
+            builtin: z.string().optional(),
+            calls: z.array(z.string()).describe("For compositions: the functions called."),
+          })
+        ),
+      })
+    )
+    .describe("Every function reached, the root first."),
+  edges: z.array(
+    z.object({
+      from: z.string(),
+      to: z.string(),
+      implementation: z.string().describe("The composition that makes the call."),
+      cycle: z.boolean().describe("Whether the call leads back to a function on the path from the root."),
+    })
+  ),
+  cycles: z.array(z.array(z.string())).describe("Each cycle as a path of ZIDs that starts and ends with the same function."),
+  mermaid: z.string().describe("The graph as a Mermaid flowchart."),
+  warnings: z.array(z.string()),
+};
+
+const runRecordSchema = z.object({
+  id: z.number(),
+  timestamp: z.string(),
+  function_zid: z.string(),
+  function_name: z.string().optional(),
+  template: zobjectSchema,
+  values: z.record(z.unknown()),
+  call: zobjectSchema,
+  success: z.boolean(),
+  value: z.any().optional(),
+  raw_value: z.any().optional(),
+  result_type: z.string().optional(),
+  error: decodedErrorSchema.optional(),
+  metadata: z.any().optional().describe("The result metadata (Z22K2)."),
+  stats: z.record(z.string()),
+  replay_of: z.number().optional(),
+});
+
+export const listRunsOutput = {
+  runs: z.array(runRecordSchema).describe("The recorded runs, most recent first."),
+  total: z.number().describe("The number of matching runs in the history."),
+};
+
+export const replayRunOutput = {
+  run: runRecordSchema.describe("The replayed run."),
+  replay: runRecordSchema.describe("The new run."),
+  changed: z.boolean().describe("Whether the result (or the error) differs from the replayed run."),
+};
+
+export const exportRunAsTesterOutput = {
+  run_id: z.number(),
+  tester: zobjectSchema.describe("A new Z20 tester (persistent object with ZID Z0) in canonical form."),
+};
+
+const typeFunctionSchema = z.object({ zid: z.string(), label: z.string().optional() }).optional();
+
+export const describeTypeOutput = {
+  type: z.string().describe("The type, e.g. 'Z20838' or 'Z881(Z6)'."),
+  label: z.string().optional(),
+  keys: z.array(
+    z.object({
+      key: z.string(),
+      label: z.string().optional(),
+      type: z.string(),
+      type_label: z.string().optional(),
+    })
+  ),
+  validator: typeFunctionSchema.describe("Z4K3: the function that checks instances."),
+  equality: typeFunctionSchema.describe("Z4K4: the function that compares two instances."),
+  renderer: typeFunctionSchema.describe("Z4K5: the function that renders instances as text."),
+  parser: typeFunctionSchema.describe("Z4K6: the function that parses text into instances."),
+  code_converters: z.array(
+    z.object({
+      zid: z.string(),
+      label: z.string().optional(),
+      direction: z.enum(["to code", "from code"]),
+      programming_language: z.string().optional(),
+      native_type: z.string().optional(),
+    })
+  ),
+  native: z.boolean().describe("Whether this server converts the type to and from plain JSON itself."),
+  json_form: z.string().optional().describe("How values of a natively converted type are written as plain JSON."),
+  example: z
+    .object({
+      json: z.any().describe("A minimal valid value as plain JSON, as run_template accepts it."),
+      zobject: z.any().describe("The same value as a ZObject in canonical form."),
+    })
+    .optional(),
+  notes: z.array(z.string()),
+};
+
+export type FindCodeOutput = z.infer<z.ZodObject<typeof findCodeOutput>>;
+export type GetTemplateOutput = z.infer<z.ZodObject<typeof getTemplateOutput>>;
+export type RunTemplateOutput = z.infer<z.ZodObject<typeof runTemplateOutput>>;
+export type SearchFunctionsOutput = z.infer<z.ZodObject<typeof searchFunctionsOutput>>;
+export type ComposeCallOutput = z.infer<z.ZodObject<typeof composeCallOutput>>;
+export type RunTestsOutput = z.infer<z.ZodObject<typeof runTestsOutput>>;
+export type RunCodeLocallyOutput = z.infer<z.ZodObject<typeof runCodeLocallyOutput>>;
+export type ListImplementationsOutput = z.infer<z.ZodObject<typeof listImplementationsOutput>>;
+export type ExplainZObjectOutput = z.infer<z.ZodObject<typeof explainZObjectOutput>>;
+export type RunRecordOutput = z.infer<typeof runRecordSchema>;
+export type ListRunsOutput = z.infer<z.ZodObject<typeof listRunsOutput>>;
+export type ReplayRunOutput = z.infer<z.ZodObject<typeof replayRunOutput>>;
+export type ExportRunAsTesterOutput = z.infer<z.ZodObject<typeof exportRunAsTesterOutput>>;
+export type DescribeTypeOutput = z.infer<z.ZodObject<typeof describeTypeOutput>>;
+export type FunctionDependenciesOutput = z.infer<z.ZodObject<typeof functionDependenciesOutput>>;
+
+/** Structured content must be plain JSON; BigInts become strings as in the text output. */
+export function toStructured<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value, bigintReplacer));
+}
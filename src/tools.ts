@@ -0,0 +1,1401 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { config } from "./config.js";
+import { describeRequestError } from "./http-client.js";
+import { composeCall, isCallNode, parseCallExpression } from "./compose.js";
+import {
+  buildDependencyGraph,
+  DEFAULT_DEPENDENCY_DEPTH,
+  formatDependencyTree,
+  MAX_DEPENDENCY_DEPTH,
+  toMermaid,
+} from "./dependencies.js";
+import { explainZObject, resolveLabels } from "./explain.js";
+import { createSessionHistory, formatRunSummary, RunRecord, runAsTester, sameOutcome } from "./history.js";
+import { formatImplementation, listImplementations } from "./implementations.js";
+import { collectLanguageZids, loadLanguages, pickLabel, resetLanguages } from "./languages.js";
+import { runImplementationLocally } from "./local-run.js";
+import { reportProgress, runInRequestContext } from "./request-context.js";
+import { formatFunctionSummary, formatSignature, resolveFunctionQuery, searchFunctions } from "./search.js";
+import {
+  decodeEvaluationResult,
+  formatErrorChain,
+  formatExecutionStats,
+  resultTypeOf,
+} from "./result-decoder.js";
+import {
+  ArgumentValidationError,
+  buildFunctionCallTemplate,
+  explainNotCallable,
+  transformTemplateToFunctionCall,
+} from "./templates.js";
+import { formatTesterTable, runTesters } from "./testers.js";
+import {
+  composeCallOutput,
+  ComposeCallOutput,
+  describeTypeOutput,
+  DescribeTypeOutput,
+  findCodeOutput,
+  FindCodeOutput,
+  getTemplateOutput,
+  explainZObjectOutput,
+  ExplainZObjectOutput,
+  exportRunAsTesterOutput,
+  ExportRunAsTesterOutput,
+  functionDependenciesOutput,
+  FunctionDependenciesOutput,
+  GetTemplateOutput,
+  listImplementationsOutput,
+  ListImplementationsOutput,
+  listRunsOutput,
+  ListRunsOutput,
+  replayRunOutput,
+  ReplayRunOutput,
+  runCodeLocallyOutput,
+  RunCodeLocallyOutput,
+  RunRecordOutput,
+  runTemplateOutput,
+  RunTemplateOutput,
+  runTestsOutput,
+  RunTestsOutput,
+  searchFunctionsOutput,
+  SearchFunctionsOutput,
+  toStructured,
+} from "./tool-schemas.js";
+import {
+  bigintReplacer,
+  collectTypeZids,
+  formatType,
+  isNativeConverter,
+  nativeJsonForm,
+  parseTypeExpression,
+} from "./type-converter.js";
+import {
+  buildExample,
+  describeType,
+  genericTypeKeys,
+  loadTypeConverters,
+  resetTypeSchemas,
+  TypeDescription,
+  TypeKeyDescription,
+} from "./type-schema.js";
+import {
+  extractCode,
+  findFunctions,
+  getFunctionDetails,
+  getImplementations,
+  getMultipleDetails,
+  runWikifunctionCall,
+  zobjectCache,
+} from "./wikifunctions-api.js";
+import { canonicalize, collectZObjectIds, terminalValue } from "./zobject.js";
+
+// --- Tools ---
+//
+// Every transport gets its own McpServer; they all register the same tools.
+
+const timeoutParam = z
+  .number()
+  .positive()
+  .optional()
+  .describe("Optional time limit for the whole call in seconds; when it is exceeded, all pending requests are cancelled and the call fails.");
+
+/** Parses a JSON string argument, naming the argument if it is not valid JSON. */
+function parseJson(json: string, name: string): any {
+  try {
+    return JSON.parse(json);
+  } catch (error: any) {
+    throw new Error(`${name} is not valid JSON: ${error?.message || String(error)}`);
+  }
+}
+
+/**
+ * Aborts when any of the signals does, like AbortSignal.any, which needs
+ * Node 20.3. `dispose` removes the listeners from the given signals.
+ */
+function anySignal(signals: AbortSignal[]): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const listeners: [AbortSignal, () => void][] = [];
+  const dispose = () => listeners.forEach(([signal, listener]) => signal.removeEventListener("abort", listener));
+  for (const signal of signals) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    const listener = () => controller.abort(signal.reason);
+    signal.addEventListener("abort", listener, { once: true });
+    listeners.push([signal, listener]);
+  }
+  return { signal: controller.signal, dispose };
+}
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Runs a tool handler in a request context: requests to Wikifunctions stop
+ * when the client cancels the call or its `timeout_seconds` pass, and the
+ * stages passed to `reportProgress` are sent as progress notifications if the
+ * client asked for them with a progress token.
+ */
+function withRequestContext<A extends { timeout_seconds?: number }, R>(
+  handler: (args: A, extra: ToolExtra) => Promise<R>
+): (args: A, extra: ToolExtra) => Promise<R> {
+  return (args, extra) => {
+    const signals = [extra.signal];
+    if (args.timeout_seconds !== undefined) {
+      signals.push(AbortSignal.timeout(args.timeout_seconds * 1000));
+    }
+    const combined = anySignal(signals);
+    const progressToken = extra._meta?.progressToken;
+    let progress = 0;
+    const context = {
+      signal: combined.signal,
+      timeoutSeconds: args.timeout_seconds,
+      progress: async (message: string) => {
+        if (progressToken === undefined) return;
+        progress++;
+        await extra
+          .sendNotification({ method: "notifications/progress", params: { progressToken, progress, message } })
+          .catch((error: any) => console.error(`Could not send progress: ${error?.message || String(error)}`));
+      },
+    };
+    // The client's signal lives as long as the session; drop the listeners once the call is done.
+    return runInRequestContext(context, () => handler(args, extra)).finally(combined.dispose);
+  };
+}
+
+function runRecordOutput(run: RunRecord): RunRecordOutput {
+  return {
+    id: run.id,
+    timestamp: run.timestamp,
+    function_zid: run.functionZid,
+    function_name: run.functionName,
+    template: run.template,
+    values: run.values,
+    call: run.call,
+    success: run.success,
+    value: run.value,
+    raw_value: run.rawValue,
+    result_type: run.resultType,
+    error: run.error,
+    metadata: run.metadata,
+    stats: { ...run.stats },
+    replay_of: run.replayOf,
+  };
+}
+
+export function registerTools(server: McpServer): void {
+  const history = createSessionHistory();
+  const languageParam = z
+    .string()
+    .optional()
+    .describe(
+      `Optional language code for labels and search, e.g. 'de' or 'de-at'. Falls back like MediaWiki (de-at → de → en → any). Defaults to '${config.language}'.`
+    );
+
+  // Runs a function call and records it in the history.
+  const runAndRecord = async (template: any, values: Record<string, unknown>, callObject: any, replayOf?: number) => {
+    await reportProgress("Running the call on Wikifunctions");
+    const { raw } = await runWikifunctionCall(callObject);
+    await reportProgress("Decoding the result");
+    if (template._output_type) {
+      await loadTypeConverters(template._output_type);
+    }
+    const decoded = decodeEvaluationResult(raw);
+    const resultType = decoded.success ? resultTypeOf(decoded.rawValue) ?? template._output_type : undefined;
+    const run = history.add({
+      functionZid: String(terminalValue(callObject.Z7K1)),
+      functionName: template._function_name,
+      template,
+      values,
+      call: callObject,
+      success: decoded.success,
+      value: decoded.value,
+      rawValue: decoded.success ? decoded.rawValue : undefined,
+      resultType: resultType ? formatType(resultType) : undefined,
+      error: decoded.error,
+      metadata: canonicalize(raw)?.Z22K2,
+      stats: decoded.stats,
+      replayOf,
+    });
+    return { decoded, resultType, run };
+  };
+
+  server.registerTool(
+    "find_code",
+    {
+      description:
+        "Finds the code implementations for a given search query on WikiFunctions. Returns every code implementation of the top matching functions, grouped by function in search order. Use this tool if the User asks for the code of a function.",
+      inputSchema: {
+        search_query: z
+          .string()
+          .describe("The search query to find code for. Just a short string like 'add' or 'fibonacci'."),
+        language: languageParam,
+        timeout_seconds: timeoutParam,
+      },
+      outputSchema: findCodeOutput,
+    },
+    withRequestContext(async ({ search_query, language = config.language }) => {
+      try {
+        console.error(`Searching for code for query: "${search_query}" (${language})`);
+
+        // Step 1: Find functions.
+        await reportProgress(`Searching for '${search_query}'`);
+        const functionsResponse = await findFunctions(search_query, language);
+        if ('error' in functionsResponse) {
+          return { content: [{ type: "text", text: functionsResponse.error }], isError: true };
+        }
+
+        if (!functionsResponse || functionsResponse.length === 0) {
+          return {
+            content: [{ type: "text", text: `No functions found for '${search_query}'.` }],
+            structuredContent: { query: search_query, functions: [] },
+          };
+        }
+
+        // Step 2: Fetch all candidate functions in one batch.
+        const functionIds: string[] = functionsResponse.map((func: any) => func.page_title).filter(Boolean);
+        await reportProgress(`Fetching ${functionIds.length} functions`);
+        const functionDetails = await getMultipleDetails(functionIds);
+        await loadLanguages(collectLanguageZids(...functionIds.map((id) => functionDetails[id]?.Z2K3?.Z12K1)));
+
+        // Step 3: Fetch the implementations of all candidates in one batch.
+        const implementationsByFunction = new Map<string, string[]>();
+        for (const functionId of functionIds) {
+          implementationsByFunction.set(functionId, getImplementations(functionDetails[functionId]));
+        }
+        const implementationIds = Array.from(new Set(Array.from(implementationsByFunction.values()).flat()));
+        console.error(
+          `Fetching ${implementationIds.length} implementations of ${functionIds.length} functions...`
+        );
+        await reportProgress(`Fetching ${implementationIds.length} implementations`);
+        const implementationDetails = await getMultipleDetails(implementationIds);
+
+        // Step 4: Group code implementations by function, keeping search rank
+        // and each function's own implementation order.
+        const content: { type: "text"; text: string }[] = [];
+        const functions: FindCodeOutput["functions"] = [];
+        let found = 0;
+        functionsResponse.forEach((func: any, rank: number) => {
+          const functionId = func.page_title;
+          const localized = pickLabel(functionDetails[functionId]?.Z2K3?.Z12K1, language);
+          const label = localized ? `${localized.text} [${localized.language}]` : func.label || "N/A";
+          const codeImplementations = (implementationsByFunction.get(functionId) || [])
+            .map((implId) => ({ implId, code: extractCode(implementationDetails[implId]) }))
+            .filter((impl) => impl.code);
+
+          if (codeImplementations.length === 0) {
+            console.error(`No code found in any implementations for function ${functionId}.`);
+            return;
+          }
+
+          content.push({
+            type: "text",
+            text: `## ${functionId} (${label}) — search rank ${rank + 1}, ${codeImplementations.length} code implementation(s)`,
+          });
+          functions.push({
+            zid: functionId,
+            label: localized?.text ?? func.label ?? functionId,
+            label_language: localized?.language,
+            search_rank: rank + 1,
+            implementations: codeImplementations.map(({ implId, code }) => ({
+              zid: implId,
+              programming_language: code!.language,
+              code: code!.code,
+            })),
+          });
+          for (const { implId, code } of codeImplementations) {
+            found++;
+            content.push({
+              type: "text",
+              text: `Implementation ${implId} (${code!.language}):\n\`\`\`${code!.language}\n${code!.code}\n\`\`\``,
+            });
+          }
+        });
+
+        if (found === 0) {
+          return {
+            content: [{ type: "text", text: `Operation complete. No code found for any function matching '${search_query}'; use list_implementations to see their compositions and built-ins.` }],
+            structuredContent: { query: search_query, functions },
+          };
+        }
+
+        return { content, structuredContent: { query: search_query, functions } };
+
+      } catch (error: any) {
+        console.error(`Error in find_code: ${describeRequestError(error)}`);
+        return {
+          content: [{ type: "text", text: `Error searching for code: ${describeRequestError(error)}` }],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  server.registerTool(
+    "list_implementations",
+    {
+      description:
+        "Lists every implementation of a Wikifunctions function: code (with its programming language), compositions (rendered as nested call expressions with function labels) and built-ins, and whether each one is connected to the function or disconnected. Use this tool to understand how a function is implemented, including implementations that are not code.",
+      inputSchema: {
+        function_zid: z.string().describe("The ZID of the function, e.g. 'Z801'."),
+        language: languageParam,
+        timeout_seconds: timeoutParam,
+      },
+      outputSchema: listImplementationsOutput,
+    },
+    withRequestContext(async ({ function_zid, language = config.language }) => {
+      try {
+        const list = await listImplementations(function_zid, language);
+        if (!list) {
+          return {
+            content: [{ type: "text", text: `${function_zid} was not found or is not a function.` }],
+            isError: true,
+          };
+        }
+
+        const label = list.functionLabel ? ` (${list.functionLabel.text})` : "";
+        const connected = list.implementations.filter((impl) => impl.connected).length;
+        const content: { type: "text"; text: string }[] = [
+          {
+            type: "text",
+            text: `${function_zid}${label} has ${list.implementations.length} implementation(s), ${connected} of them connected.`,
+          },
+          ...list.implementations.map((impl) => ({ type: "text" as const, text: formatImplementation(impl) })),
+          ...list.warnings.map((warning) => ({ type: "text" as const, text: `Warning: ${warning}` })),
+        ];
+        const structured: ListImplementationsOutput = {
+          function_zid,
+          function_label: list.functionLabel?.text,
+          implementations: list.implementations.map((impl) => ({
+            zid: impl.zid,
+            label: impl.label?.text,
+            label_language: impl.label?.language,
+            kind: impl.kind,
+            connected: impl.connected,
+            programming_language: impl.programmingLanguage,
+            composition: impl.composition,
+            builtin: impl.builtin,
+          })),
+          warnings: list.warnings,
+        };
+        return { content, structuredContent: toStructured(structured) };
+      } catch (error: any) {
+        return {
+          content: [{ type: "text", text: `Error in list_implementations: ${describeRequestError(error)}` }],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  server.registerTool(
+    "function_dependencies",
+    {
+      description:
+        "Shows which functions a Wikifunctions function depends on: the functions called by its connected composition implementations, and the functions those call, down to `max_depth` levels. Returns the dependency graph with labels, implementation kinds and programming languages, as an indented tree, as JSON and as a Mermaid diagram; cycles are detected and marked. Use this tool to find which nested function may cause a failure.",
+      inputSchema: {
+        function_zid: z.string().describe("The ZID of the function, e.g. 'Z12345'."),
+        max_depth: z
+          .number()
+          .int()
+          .min(0)
+          .max(MAX_DEPENDENCY_DEPTH)
+          .optional()
+          .describe(`How many levels of calls to follow (default ${DEFAULT_DEPENDENCY_DEPTH}).`),
+        language: languageParam,
+        timeout_seconds: timeoutParam,
+      },
+      outputSchema: functionDependenciesOutput,
+    },
+    withRequestContext(async ({ function_zid, max_depth = DEFAULT_DEPENDENCY_DEPTH, language = config.language }) => {
+      try {
+        const graph = await buildDependencyGraph(function_zid, max_depth, language);
+        const root = graph.functions[0];
+        if (root.status === "not_found" || root.status === "not_function") {
+          return {
+            content: [{ type: "text", text: `${function_zid} was not found or is not a function.` }],
+            isError: true,
+          };
+        }
+
+        const mermaid = toMermaid(graph);
+        const cycles = graph.cycles.map((cycle) => `Cycle: ${cycle.join(" → ")}`);
+        const content: { type: "text"; text: string }[] = [
+          {
+            type: "text",
+            text: `${function_zid} reaches ${graph.functions.length - 1} other function(s) within ${max_depth} level(s) of calls.`,
+          },
+          { type: "text", text: formatDependencyTree(graph) },
+          ...cycles.map((text) => ({ type: "text" as const, text })),
+          { type: "text", text: `\`\`\`mermaid\n${mermaid}\n\`\`\`` },
+          ...graph.warnings.map((warning) => ({ type: "text" as const, text: `Warning: ${warning}` })),
+        ];
+        const structured: FunctionDependenciesOutput = {
+          root: graph.root,
+          max_depth: graph.maxDepth,
+          functions: graph.functions.map((node) => ({
+            zid: node.zid,
+            label: node.label ?? undefined,
+            depth: node.depth,
+            status: node.status,
+            implementations: node.implementations.map((impl) => ({
+              zid: impl.zid,
+              label: impl.label ?? undefined,
+              kind: impl.kind,
+              programming_language: impl.programmingLanguage,
+              builtin: impl.builtin,
+              calls: impl.calls,
+            })),
+          })),
+          edges: graph.edges,
+          cycles: graph.cycles,
+          mermaid,
+          warnings: graph.warnings,
+        };
+        return { content, structuredContent: toStructured(structured) };
+      } catch (error: any) {
+        return {
+          content: [{ type: "text", text: `Error in function_dependencies: ${describeRequestError(error)}` }],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  server.registerTool(
+    "search_functions",
+    {
+      description:
+        "Searches Wikifunctions for functions and lists every match with its ZID, label, description, input signature, output type and number of connected implementations and testers. Matches can be filtered by argument types, output type and number of arguments. Use this tool to pick the right function before calling get_template.",
+      inputSchema: {
+        query: z.string().describe("The search query, matched against function labels, e.g. 'add' or 'reverse'."),
+        language: languageParam,
+        timeout_seconds: timeoutParam,
+        input_types: z
+          .array(z.string())
+          .optional()
+          .describe("Only functions taking arguments of all these types, e.g. ['Z16683', 'Z881(Z6)']. A generic type function such as 'Z881' matches any typed list."),
+        output_type: z.string().optional().describe("Only functions returning this type, e.g. 'Z6'."),
+        arg_count: z.number().int().min(0).optional().describe("Only functions with exactly this many arguments."),
+        sort: z
+          .enum(["relevance", "implementations", "testers"])
+          .optional()
+          .describe("Order of the matches on this page: search relevance (default), or most connected implementations or testers first."),
+        limit: z.number().int().min(1).max(50).optional().describe("Maximum number of matches to return (default 10)."),
+        continue: z.string().optional().describe("The continuation token returned by a previous search, to get the next page."),
+      },
+      outputSchema: searchFunctionsOutput,
+    },
+    withRequestContext(async ({ query, language, input_types, output_type, arg_count, sort, limit, continue: continueToken }) => {
+      try {
+        const result = await searchFunctions({
+          query,
+          language,
+          inputTypes: input_types,
+          outputType: output_type,
+          argumentCount: arg_count,
+          sort,
+          limit,
+          continueToken,
+        });
+
+        const content: { type: "text"; text: string }[] = [
+          {
+            type: "text",
+            text: `Found ${result.matches.length} matching function(s) for '${query}' among ${result.scanned} search result(s).`,
+          },
+          ...result.matches.map((match) => ({
+            type: "text" as const,
+            text: `${match.rank}. ${formatFunctionSummary(match)}`,
+          })),
+        ];
+        content.push({
+          type: "text",
+          text: result.continueToken
+            ? `More results are available: call search_functions again with continue="${result.continueToken}".`
+            : "No more results.",
+        });
+        const structured: SearchFunctionsOutput = {
+          query,
+          matches: result.matches.map((match) => ({
+            rank: match.rank,
+            zid: match.zid,
+            label: match.label?.text,
+            label_language: match.label?.language,
+            description: match.description?.text,
+            inputs: match.inputs.map((input) => ({
+              key: input.key,
+              name: input.name,
+              type: formatType(input.type),
+              type_label: input.typeName,
+            })),
+            output_type: formatType(match.outputType),
+            output_type_label: match.outputTypeName,
+            implementations: match.implementations,
+            testers: match.testers,
+          })),
+          scanned: result.scanned,
+          continue: result.continueToken,
+        };
+        return { content, structuredContent: toStructured(structured) };
+      } catch (error: any) {
+        return {
+          content: [{ type: "text", text: `Error in search_functions: ${describeRequestError(error)}` }],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  server.registerTool(
+    "get_template",
+    {
+      description:
+        "Builds a function call template (with argument names and types) for a Wikifunctions function, given its ZID or a search query. If a query matches several functions, their signatures are listed instead so that one can be picked by ZID. Use this tool as the first tool if the User asks for the execution of a function or if your task requires the execution of a function.",
+      inputSchema: {
+        function_zid: z
+          .string()
+          .optional()
+          .describe("The ZID of the function, e.g. 'Z10000'. Takes precedence over search_query."),
+        search_query: z
+          .string()
+          .optional()
+          .describe(
+            "The search query to find a function for. Just a string like 'add' or 'fibonacci'."
+          ),
+        language: languageParam,
+        timeout_seconds: timeoutParam,
+      },
+      outputSchema: getTemplateOutput,
+    },
+    withRequestContext(async ({ function_zid, search_query, language = config.language }) => {
+      const reply = (text: string, structured: GetTemplateOutput) => ({
+        content: [{ type: "text" as const, text }],
+        structuredContent: { message: text, ...structured },
+      });
+
+      try {
+        let functionId = function_zid?.trim();
+
+        if (!functionId) {
+          if (!search_query) {
+            return { content: [{ type: "text", text: "Provide either function_zid or search_query." }], isError: true };
+          }
+          console.error(`Searching for template for query: "${search_query}" (${language})`);
+
+          await reportProgress(`Searching for '${search_query}'`);
+          const resolution = await resolveFunctionQuery(search_query, language);
+          if (resolution.status === "none") {
+            return reply(`No functions found for '${search_query}'.`, { status: "not_found" });
+          }
+          if (resolution.status === "ambiguous") {
+            const message = `'${search_query}' matches ${resolution.candidates.length} functions. Call get_template again with the function_zid of the one you mean:`;
+            return {
+              content: [
+                { type: "text", text: message },
+                ...resolution.candidates.map((candidate, index) => ({
+                  type: "text" as const,
+                  text: `${index + 1}. ${formatFunctionSummary(candidate)}`,
+                })),
+              ],
+              structuredContent: {
+                status: "ambiguous",
+                message,
+                candidates: resolution.candidates.map((candidate) => ({
+                  zid: candidate.zid,
+                  label: candidate.label?.text,
+                  signature: formatSignature(candidate),
+                  implementations: candidate.implementations,
+                  testers: candidate.testers,
+                })),
+              } satisfies GetTemplateOutput,
+            };
+          }
+          functionId = resolution.zid;
+        } else if (!/^Z[1-9]\d*$/.test(functionId)) {
+          return {
+            content: [{ type: "text", text: `'${functionId}' is not a ZID; expected something like 'Z10000'.` }],
+            isError: true,
+          };
+        }
+
+        console.error(`--- Building template for function: ${functionId} ---`);
+        await reportProgress(`Fetching ${functionId}`);
+        const functionData = await getFunctionDetails(functionId);
+        if (!functionData) {
+          return reply(`${functionId} was not found.`, { status: "not_found", function_zid: functionId });
+        }
+        if (functionData?.Z2K2?.Z1K1 !== "Z8") {
+          return reply(await explainNotCallable(functionId, functionData, language), {
+            status: "not_callable",
+            function_zid: functionId,
+          });
+        }
+
+        await reportProgress("Building the template");
+        const template = await buildFunctionCallTemplate(functionData, language);
+        if (!template || template.error) {
+          return {
+            content: [{ type: "text", text: `${functionId}: ${template?.error ?? "Could not build template."}` }],
+            isError: true,
+          };
+        }
+        const message = `Template built for function ${functionId} (${template._function_name} [${template._function_name_language ?? "?"}]).`;
+        return {
+          content: [
+            { type: "text", text: `\`\`\`\n${JSON.stringify(template, null, 2)}\n\`\`\`` },
+            { type: "text", text: message },
+          ],
+          structuredContent: { status: "template", function_zid: functionId, template, message } satisfies GetTemplateOutput,
+        };
+      } catch (error: any) {
+        console.error(`Error in get_template: ${describeRequestError(error)}`);
+        return {
+          content: [{ type: "text", text: `Error building function template: ${describeRequestError(error)}` }],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  server.registerTool(
+    "run_template",
+    {
+      description:
+        "Transforms a function call template using provided values and executes it on Wikifunctions. Use this tool alwaysas the second tool if the User asks for the execution of a function or if your task requires the execution of a function.",
+      inputSchema: {
+        template: z
+          .record(z.any())
+          .optional()
+          .describe("The function call template object produced by get_template (its structured `template` field)."),
+        template_json: z
+          .string()
+          .optional()
+          .describe("The function call template as a JSON string, as an alternative to `template`."),
+        values: z
+          .record(z.any())
+          .optional()
+          .describe(
+            `Object mapping argument names (in any of the function's label languages) or keys to their values. For example: {"first number": 5, "second number": 7}.`
+          ),
+        values_json: z
+          .string()
+          .optional()
+          .describe(`The values as a JSON string, as an alternative to \`values\`. For example: '{"first number": 5, "second number": 7}'.`),
+        language: languageParam,
+        timeout_seconds: timeoutParam,
+      },
+      outputSchema: runTemplateOutput,
+    },
+    withRequestContext(async ({ template: templateObject, template_json, values: valuesObject, values_json, language = config.language }) => {
+      try {
+        const template = templateObject ?? (template_json ? parseJson(template_json, "template_json") : undefined);
+        if (!template) {
+          throw new Error("Provide the template from get_template as `template` or `template_json`.");
+        }
+        const values: Record<string, unknown> =
+          valuesObject ?? (values_json ? parseJson(values_json, "values_json") : {});
+
+        await reportProgress("Building and checking the call");
+        const callObject = await transformTemplateToFunctionCall(template, values, language);
+        const callJson = JSON.stringify(callObject, null, 2);
+
+        const { decoded, resultType, run } = await runAndRecord(template, values, callObject);
+
+        const content: { type: "text"; text: string }[] = [
+          { type: "text", text: `Constructed Call:` },
+          { type: "text", text: `\`\`\`\n${callJson}\n\`\`\`` },
+        ];
+
+        let explained: string | undefined;
+        if (decoded.success) {
+          const extracted = decoded.value;
+          const displayedResult =
+            extracted && typeof extracted === "object"
+              ? JSON.stringify(extracted, bigintReplacer, 2)
+              : extracted ?? "<none>";
+          content.push({ type: "text", text: `Result (extracted): ${displayedResult}` });
+          // Values the converters could not decode still hold opaque ZIDs.
+          if (collectZObjectIds(extracted).zids.length > 0) {
+            explained = (await explainZObject(decoded.rawValue, language)).text;
+            content.push({ type: "text", text: `Result (explained):\n\`\`\`\n${explained}\n\`\`\`` });
+          }
+        } else if (decoded.error) {
+          content.push({
+            type: "text",
+            text: `The call failed:\n${formatErrorChain(decoded.error)}`,
+          });
+        }
+
+        content.push({ type: "text", text: `Execution: ${formatExecutionStats(decoded.stats)}` });
+        content.push({ type: "text", text: `Recorded as run ${run.id}.` });
+
+        const structured: RunTemplateOutput = toStructured({
+          call: callObject,
+          success: decoded.success,
+          value: decoded.value,
+          raw_value: decoded.success ? decoded.rawValue : undefined,
+          result_type: resultType ? formatType(resultType) : undefined,
+          result_explained: explained,
+          error: decoded.error,
+          stats: { ...decoded.stats },
+          run_id: run.id,
+        });
+        return { content, structuredContent: structured };
+      } catch (error: any) {
+        if (error instanceof ArgumentValidationError) {
+          const structured: RunTemplateOutput = {
+            success: false,
+            stats: {},
+            problems: error.problems.map((problem) => ({
+              argument: problem.argument,
+              name: problem.name,
+              kind: problem.kind,
+              message: problem.message,
+              expected_type: problem.expectedType,
+              suggestions: problem.suggestions,
+            })),
+          };
+          return {
+            content: [{ type: "text", text: `The call was not run. ${error.message}` }],
+            structuredContent: toStructured(structured),
+            isError: true,
+          };
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error in run_template: ${describeRequestError(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  server.registerTool(
+    "list_runs",
+    {
+      description:
+        "Lists the function calls made with run_template in this session (or in the shared history, if a history file is configured), most recent first, with their template, values, constructed call, decoded result, result metadata and timestamp. Use the run IDs with replay_run and export_run_as_tester.",
+      inputSchema: {
+        function_zid: z.string().optional().describe("Only list runs of this function."),
+        limit: z.number().int().min(1).max(200).optional().describe("The maximum number of runs to list (default 20)."),
+      },
+      outputSchema: listRunsOutput,
+    },
+    async ({ function_zid, limit = 20 }) => {
+      const runs = history.list(function_zid);
+      const shown = runs.slice(0, limit);
+      const heading =
+        runs.length === 0
+          ? "No runs have been recorded yet."
+          : `${runs.length} run(s) recorded${runs.length > shown.length ? `, showing the latest ${shown.length}` : ""}:`;
+      const structured: ListRunsOutput = { runs: shown.map(runRecordOutput), total: runs.length };
+      return {
+        content: [{ type: "text", text: [heading, ...shown.map(formatRunSummary)].join("\n") }],
+        structuredContent: toStructured(structured),
+      };
+    }
+  );
+
+  server.registerTool(
+    "replay_run",
+    {
+      description:
+        "Runs a recorded function call again, e.g. after an implementation changed, records it as a new run and shows whether the result differs from the original run.",
+      inputSchema: {
+        run_id: z.number().int().describe("The ID of the run, from run_template or list_runs."),
+        timeout_seconds: timeoutParam,
+      },
+      outputSchema: replayRunOutput,
+    },
+    withRequestContext(async ({ run_id }) => {
+      try {
+        const run = history.get(run_id);
+        if (!run) throw new Error(`There is no run ${run_id} in the history; see list_runs.`);
+
+        const { run: replay } = await runAndRecord(run.template, run.values, run.call, run.id);
+        const changed = !sameOutcome(run, replay);
+        const outcome = (record: RunRecord) =>
+          record.success
+            ? JSON.stringify(record.value ?? record.rawValue)
+            : `error: ${record.error?.label ?? record.error?.type ?? "unknown error"}`;
+
+        const lines = [
+          changed
+            ? `Run ${run.id} replayed as run ${replay.id}: the result changed.\n- run ${run.id}: ${outcome(run)}\n+ run ${replay.id}: ${outcome(replay)}`
+            : `Run ${run.id} replayed as run ${replay.id}: the result is unchanged (${outcome(replay)}).`,
+        ];
+        if (run.stats.implementationId !== replay.stats.implementationId) {
+          lines.push(
+            `Implementation: ${run.stats.implementationId ?? "unknown"} → ${replay.stats.implementationId ?? "unknown"}`
+          );
+        }
+        if (!replay.success && replay.error) {
+          lines.push(`The call failed:\n${formatErrorChain(replay.error)}`);
+        }
+        const structured: ReplayRunOutput = {
+          run: runRecordOutput(run),
+          replay: runRecordOutput(replay),
+          changed,
+        };
+        return {
+          content: [{ type: "text", text: lines.join("\n") }],
+          structuredContent: toStructured(structured),
+        };
+      } catch (error: any) {
+        return {
+          content: [{ type: "text", text: `Error in replay_run: ${describeRequestError(error)}` }],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  server.registerTool(
+    "export_run_as_tester",
+    {
+      description:
+        "Turns a successful recorded run into a new tester (Z20) for its function: the call that was run, validated by an equality check (by default Z866, String equality) against the observed result. Returns the tester ZObject ready to be created on Wikifunctions. For results that are not Strings, pass the equality function of the result type as `validator`.",
+      inputSchema: {
+        run_id: z.number().int().describe("The ID of the run, from run_template or list_runs."),
+        validator: z
+          .string()
+          .optional()
+          .describe("The ZID of the equality function that checks the result (default Z866); it is called with the result as its first and the expected value as its second argument."),
+        label: z.string().optional().describe("The label of the tester; by default the call and its result."),
+        language: languageParam,
+      },
+      outputSchema: exportRunAsTesterOutput,
+    },
+    async ({ run_id, validator, label, language = config.language }) => {
+      try {
+        const run = history.get(run_id);
+        if (!run) throw new Error(`There is no run ${run_id} in the history; see list_runs.`);
+
+        const tester = runAsTester(run, { validator, label, language });
+        const structured: ExportRunAsTesterOutput = { run_id, tester };
+        return {
+          content: [
+            { type: "text", text: `\`\`\`\n${JSON.stringify(tester, null, 2)}\n\`\`\`` },
+            {
+              type: "text",
+              text: `Tester for ${run.functionZid} built from run ${run.id}. Create it on Wikifunctions as a new object, then connect it to the function.`,
+            },
+          ],
+          structuredContent: toStructured(structured),
+        };
+      } catch (error: any) {
+        return {
+          content: [{ type: "text", text: `Error in export_run_as_tester: ${describeRequestError(error)}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    "compose_call",
+    {
+      description:
+        "Builds one nested function call from several Wikifunctions functions, checks that the output type of each inner call matches the argument it is passed to, and runs it in a single request. Use this tool to chain functions, e.g. reverse(join(a, b)).",
+      inputSchema: {
+        expression: z
+          .string()
+          .optional()
+          .describe(`A call expression with function ZIDs and JSON literals, e.g. 'Z10012(Z10000("abc", "def"), 3)'. Arguments are positional.`),
+        tree_json: z
+          .string()
+          .optional()
+          .describe(`Alternatively, a JSON call tree: '{"function": "Z10012", "args": [{"function": "Z10000", "args": ["abc", "def"]}, 3]}'. "args" may also be an object keyed by argument key or name.`),
+        dry_run: z
+          .boolean()
+          .optional()
+          .describe("Only build and type-check the call without running it (default false)."),
+        timeout_seconds: timeoutParam,
+      },
+      outputSchema: composeCallOutput,
+    },
+    withRequestContext(async ({ expression, tree_json, dry_run }) => {
+      try {
+        if (!expression === !tree_json) {
+          throw new Error("Provide exactly one of expression or tree_json.");
+        }
+        const tree = expression ? parseCallExpression(expression) : parseJson(tree_json!, "tree_json");
+        if (!isCallNode(tree)) {
+          throw new Error(`The call tree must be an object like {"function": "Z10000", "args": [...]}.`);
+        }
+
+        await reportProgress("Building and type-checking the call");
+        const { call, outputType } = await composeCall(tree);
+        const content: { type: "text"; text: string }[] = [
+          { type: "text", text: `Constructed Call:` },
+          { type: "text", text: `\`\`\`\n${JSON.stringify(call, null, 2)}\n\`\`\`` },
+        ];
+        const structured: ComposeCallOutput = { call, output_type: formatType(outputType), dry_run: !!dry_run };
+        if (dry_run) {
+          return { content, structuredContent: toStructured(structured) };
+        }
+
+        await reportProgress("Running the call on Wikifunctions");
+        const { raw } = await runWikifunctionCall(call);
+        await reportProgress("Decoding the result");
+        await loadTypeConverters(outputType);
+        const decoded = decodeEvaluationResult(raw);
+        if (decoded.success) {
+          const value = decoded.value;
+          content.push({
+            type: "text",
+            text: `Result (extracted): ${value && typeof value === "object" ? JSON.stringify(value, bigintReplacer, 2) : value ?? "<none>"}`,
+          });
+        } else if (decoded.error) {
+          content.push({ type: "text", text: `The call failed:\n${formatErrorChain(decoded.error)}` });
+        }
+        content.push({ type: "text", text: `Execution: ${formatExecutionStats(decoded.stats)}` });
+        const result: ComposeCallOutput = {
+          ...structured,
+          success: decoded.success,
+          value: decoded.value,
+          raw_value: decoded.success ? decoded.rawValue : undefined,
+          error: decoded.error,
+          stats: { ...decoded.stats },
+        };
+        return { content, structuredContent: toStructured(result) };
+      } catch (error: any) {
+        return {
+          content: [{ type: "text", text: `Error in compose_call: ${describeRequestError(error)}` }],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  server.registerTool(
+    "run_tests",
+    {
+      description:
+        "Runs the testers (Z20) of a Wikifunctions function and reports pass/fail for each, with the actual and expected values. Use this tool to check whether a function (or one of its implementations) works.",
+      inputSchema: {
+        function_zid: z.string().describe("The ZID of the function, e.g. 'Z801'."),
+        implementation_zid: z
+          .string()
+          .optional()
+          .describe("Optional ZID of an implementation of the function to run the testers against."),
+        timeout_seconds: timeoutParam,
+      },
+      outputSchema: runTestsOutput,
+    },
+    withRequestContext(async ({ function_zid, implementation_zid }) => {
+      try {
+        const { functionLabel, reports } = await runTesters(function_zid, {
+          implementationId: implementation_zid,
+        });
+        const passed = reports.filter((report) => report.status === "pass").length;
+        const structured: RunTestsOutput = {
+          function_zid,
+          function_label: functionLabel,
+          implementation_zid,
+          passed,
+          total: reports.length,
+          testers: reports.map((report) => ({
+            zid: report.testerId,
+            label: report.label,
+            status: report.status,
+            actual: report.actual,
+            expected: report.expected,
+            details: report.details,
+          })),
+        };
+        if (reports.length === 0) {
+          return {
+            content: [{ type: "text", text: `Function ${function_zid} (${functionLabel}) has no testers.` }],
+            structuredContent: toStructured(structured),
+          };
+        }
+
+        const target = implementation_zid ? ` against implementation ${implementation_zid}` : "";
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${passed}/${reports.length} testers of ${function_zid} (${functionLabel}) passed${target}.`,
+            },
+            { type: "text", text: formatTesterTable(reports) },
+          ],
+          structuredContent: toStructured(structured),
+        };
+      } catch (error: any) {
+        return {
+          content: [{ type: "text", text: `Error in run_tests: ${describeRequestError(error)}` }],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  server.registerTool(
+    "run_code_locally",
+    {
+      description:
+        "Runs a JavaScript implementation of a Wikifunctions function locally in a sandbox with time and memory limits, optionally comparing the result with a remote run of the same implementation. Use this tool to debug failing implementations or to try inputs without a round trip to the wiki. The sandbox only guards against runaway code: it is not a security boundary, so the code is not isolated from the machine the server runs on. Only run implementations you have read and trust.",
+      inputSchema: {
+        implementation_zid: z
+          .string()
+          .optional()
+          .describe("The ZID of a JavaScript implementation (Z14) to run."),
+        function_zid: z
+          .string()
+          .optional()
+          .describe("Alternatively, the ZID of a function whose JavaScript implementation should run."),
+        choice: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("With function_zid: which JavaScript implementation to run, counting from 1 (default 1)."),
+        values_json: z
+          .string()
+          .optional()
+          .describe(`JSON object mapping argument names or keys to values, as for run_template. For example: '{"first number": 5, "second number": 7}'.`),
+        compare_remote: z
+          .boolean()
+          .optional()
+          .describe("Also run the same implementation on Wikifunctions and compare the results (default false)."),
+        timeout_ms: z
+          .number()
+          .int()
+          .min(1)
+          .max(30000)
+          .optional()
+          .describe("Time limit for the local run in milliseconds (default 2000)."),
+        memory_mb: z
+          .number()
+          .int()
+          .min(8)
+          .max(1024)
+          .optional()
+          .describe("Heap limit for the local run in megabytes (default 64)."),
+        timeout_seconds: timeoutParam,
+      },
+      outputSchema: runCodeLocallyOutput,
+    },
+    withRequestContext(async ({ implementation_zid, function_zid, choice, values_json, compare_remote, timeout_ms, memory_mb }) => {
+      try {
+        const values: Record<string, unknown> = values_json ? parseJson(values_json, "values_json") : {};
+        const report = await runImplementationLocally({
+          implementationId: implementation_zid,
+          functionId: function_zid,
+          choice,
+          values,
+          compareRemote: compare_remote ?? false,
+          timeoutMs: timeout_ms ?? 2000,
+          memoryMb: memory_mb ?? 64,
+        });
+
+        const show = (value: unknown) =>
+          value && typeof value === "object" ? JSON.stringify(value, bigintReplacer) : String(value);
+
+        const content: { type: "text"; text: string }[] = [
+          {
+            type: "text",
+            text: `Ran implementation ${report.implementationId} of ${report.functionId} locally with arguments ${show(report.args)} (${report.local.durationMs} ms).`,
+          },
+        ];
+
+        if (report.local.ok) {
+          content.push({ type: "text", text: `Local result: ${show(report.local.value)}` });
+          if (report.localConversionError) {
+            content.push({
+              type: "text",
+              text: `The local result does not convert to the function's output type: ${report.localConversionError}`,
+            });
+          }
+        } else {
+          content.push({ type: "text", text: `Local run failed: ${report.local.error}` });
+        }
+
+        if (report.local.logs.length > 0) {
+          content.push({ type: "text", text: `Console output:\n\`\`\`\n${report.local.logs.join("\n")}\n\`\`\`` });
+        }
+
+        if (report.remote) {
+          content.push({
+            type: "text",
+            text: report.remote.success
+              ? `Remote result: ${show(report.remote.value)}`
+              : `Remote run failed:\n${report.remote.error}`,
+          });
+          content.push({
+            type: "text",
+            text: report.identical
+              ? "The local and remote results are identical."
+              : `The local and remote results differ.\n- local:  ${report.local.ok ? show(report.localValue ?? report.local.value) : `error: ${report.local.error}`}\n+ remote: ${report.remote.success ? show(report.remote.value) : "error"}`,
+          });
+        }
+
+        const structured: RunCodeLocallyOutput = {
+          function_zid: report.functionId,
+          implementation_zid: report.implementationId,
+          args: report.args,
+          local: {
+            ok: report.local.ok,
+            value: report.local.value,
+            error: report.local.error,
+            logs: report.local.logs,
+            duration_ms: report.local.durationMs,
+          },
+          local_conversion_error: report.localConversionError,
+          remote: report.remote,
+          identical: report.identical,
+        };
+        return { content, structuredContent: toStructured(structured) };
+      } catch (error: any) {
+        return {
+          content: [{ type: "text", text: `Error in run_code_locally: ${describeRequestError(error)}` }],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  server.registerTool(
+    "describe_type",
+    {
+      description:
+        "Describes a Wikifunctions type: its keys with their types and labels, its validator (Z4K3), equality (Z4K4), renderer (Z4K5) and parser (Z4K6) functions and its type converters to and from code. Also says whether this server converts the type to plain JSON natively and gives a minimal valid value both as plain JSON and as a ZObject. Use this tool to learn what value an argument type such as 'Z20838' or 'Z881(Z6)' expects.",
+      inputSchema: {
+        type: z.string().describe("The type as a ZID or a generic type expression, e.g. 'Z20838' or 'Z881(Z6)'."),
+        language: languageParam,
+        timeout_seconds: timeoutParam,
+      },
+      outputSchema: describeTypeOutput,
+    },
+    withRequestContext(async ({ type: typeText, language = config.language }) => {
+      try {
+        const type = parseTypeExpression(typeText);
+        if (!type || formatType(type) !== typeText.replace(/\s+/g, "")) {
+          throw new Error(`'${typeText}' is not a type; expected a ZID like 'Z20838' or an expression like 'Z881(Z6)'.`);
+        }
+
+        const notes: string[] = [];
+        let description: TypeDescription | null = null;
+        let keys: TypeKeyDescription[];
+        if (typeof type === "string") {
+          await reportProgress(`Fetching ${type}`);
+          description = await describeType(type);
+          if (!description) {
+            return {
+              content: [{ type: "text", text: `${type} was not found or is not a type.` }],
+              isError: true,
+            };
+          }
+          keys = description.keys;
+        } else {
+          keys = genericTypeKeys(type);
+          notes.push(
+            `${type.Z7K1} builds this type when it is called, so the type has no definition of its own to read functions from.`
+          );
+        }
+        const typeZid = typeof type === "string" ? type : type.Z7K1;
+        const native = isNativeConverter(typeZid);
+        const jsonForm = nativeJsonForm(typeZid)?.form;
+
+        await reportProgress("Building an example");
+        let example: Awaited<ReturnType<typeof buildExample>> = null;
+        try {
+          example = await buildExample(type);
+        } catch (error: any) {
+          notes.push(`No example could be built: ${error?.message || String(error)}`);
+        }
+        if (!example && notes.length === 0) {
+          notes.push("No example could be built; values of this type may be references to a fixed set of instances, or the type is recursive.");
+        }
+
+        await reportProgress("Fetching labels");
+        const functionZids = [description?.validator, description?.equality, description?.renderer, description?.parser];
+        const labels = await resolveLabels(
+          [
+            typeZid,
+            ...keys.flatMap((key) => collectTypeZids(key.type)),
+            ...functionZids.filter((zid): zid is string => !!zid),
+            ...(description?.codeConverters ?? []).map((converter) => converter.zid),
+          ],
+          keys.map((key) => key.key).filter((key) => /^Z\d+K\d+$/.test(key)),
+          language
+        );
+        const labelled = (zid: string) => (labels.zids[zid] ? `${zid} (${labels.zids[zid]})` : zid);
+        const typeFunction = (zid?: string) => (zid ? { zid, label: labels.zids[zid] } : undefined);
+
+        const structured: DescribeTypeOutput = {
+          type: formatType(type),
+          label: labels.zids[typeZid],
+          keys: keys.map((key) => ({
+            key: key.key,
+            label: labels.keys[key.key] ?? key.label,
+            type: formatType(key.type),
+            type_label: typeof key.type === "string" ? labels.zids[key.type] : undefined,
+          })),
+          validator: typeFunction(description?.validator),
+          equality: typeFunction(description?.equality),
+          renderer: typeFunction(description?.renderer),
+          parser: typeFunction(description?.parser),
+          code_converters: (description?.codeConverters ?? []).map((converter) => ({
+            zid: converter.zid,
+            label: labels.zids[converter.zid] ?? converter.label,
+            direction: converter.direction,
+            programming_language: converter.programmingLanguage,
+            native_type: converter.nativeType,
+          })),
+          native,
+          json_form: jsonForm,
+          example: example ?? undefined,
+          notes,
+        };
+
+        const lines = [
+          `${labelled(typeZid)}${typeof type === "string" ? "" : ` → ${structured.type}`}`,
+          native
+            ? `Plain JSON: ${jsonForm} (converted natively).`
+            : "Plain JSON: an object keyed by key label (or key ID), converted using the keys below.",
+          "",
+          "Keys:",
+          ...(structured.keys.length > 0
+            ? structured.keys.map(
+                (key) => `- ${key.key}${key.label ? ` (${key.label})` : ""}: ${key.type}${key.type_label ? ` (${key.type_label})` : ""}`
+              )
+            : ["- none"]),
+        ];
+        if (description) {
+          const functionLine = (name: string, key: string, zid?: string) => `${name} (${key}): ${zid ? labelled(zid) : "none"}`;
+          lines.push(
+            "",
+            functionLine("Validator", "Z4K3", description.validator),
+            functionLine("Equality", "Z4K4", description.equality),
+            functionLine("Renderer", "Z4K5", description.renderer),
+            functionLine("Parser", "Z4K6", description.parser),
+            "",
+            "Type converters:",
+            ...(structured.code_converters.length > 0
+              ? structured.code_converters.map(
+                  (converter) =>
+                    `- ${converter.zid}${converter.label ? ` (${converter.label})` : ""}: ${converter.direction}, ${converter.programming_language ?? "unknown language"}${converter.native_type ? ` → ${converter.native_type}` : ""}`
+                )
+              : ["- none"])
+          );
+        }
+        if (example) {
+          lines.push(
+            "",
+            `Example (JSON): ${JSON.stringify(example.json)}`,
+            `Example (ZObject):\n\`\`\`\n${JSON.stringify(example.zobject, null, 2)}\n\`\`\``
+          );
+        }
+        lines.push(...notes.map((note) => `Note: ${note}`));
+
+        return {
+          content: [{ type: "text", text: lines.join("\n") }],
+          structuredContent: toStructured(structured),
+        };
+      } catch (error: any) {
+        return {
+          content: [{ type: "text", text: `Error in describe_type: ${describeRequestError(error)}` }],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  server.registerTool(
+    "explain_zobject",
+    {
+      description:
+        "Explains a ZObject by labelling every ZID and key in it, e.g. `Z11K1 (language): Z1002 (English)`. Accepts any ZObject JSON (in canonical or normal form), such as a raw result, an error or a function call, or the ZID of a persistent object to fetch. Use this tool to make sense of raw ZObjects full of opaque ZIDs.",
+      inputSchema: {
+        zobject: z.any().optional().describe("The ZObject to explain."),
+        zobject_json: z.string().optional().describe("The ZObject as a JSON string, as an alternative to `zobject`."),
+        zid: z.string().optional().describe("Alternatively, the ZID of a persistent object to fetch and explain, e.g. 'Z801'."),
+        language: languageParam,
+        timeout_seconds: timeoutParam,
+      },
+      outputSchema: explainZObjectOutput,
+    },
+    withRequestContext(async ({ zobject, zobject_json, zid, language = config.language }) => {
+      try {
+        let target = zobject;
+        if (target === undefined && zobject_json !== undefined) {
+          try {
+            target = JSON.parse(zobject_json);
+          } catch (error: any) {
+            throw new Error(`zobject_json is not valid JSON: ${error?.message || String(error)}`);
+          }
+        }
+        if (target === undefined && zid) {
+          target = await getFunctionDetails(zid);
+          if (!target) throw new Error(`ZObject ${zid} was not found.`);
+        }
+        if (target === undefined) {
+          throw new Error("Provide the ZObject as `zobject` or `zobject_json`, or its ZID as `zid`.");
+        }
+
+        await reportProgress("Fetching labels");
+        const explained = await explainZObject(target, language);
+        const structured: ExplainZObjectOutput = {
+          text: explained.text,
+          zobject: explained.zobject,
+          labels: explained.labels,
+        };
+        return {
+          content: [{ type: "text", text: `\`\`\`\n${explained.text}\n\`\`\`` }],
+          structuredContent: toStructured(structured),
+        };
+      } catch (error: any) {
+        return {
+          content: [{ type: "text", text: `Error in explain_zobject: ${describeRequestError(error)}` }],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  server.tool(
+    "cache_status",
+    "Shows the state of the local cache of fetched ZObjects and search results: entry counts per kind, hit/miss statistics, TTLs and the cache file, if any.",
+    {},
+    async () => {
+      const status = zobjectCache().status();
+      return {
+        content: [{ type: "text", text: `\`\`\`\n${JSON.stringify(status, null, 2)}\n\`\`\`` }],
+      };
+    }
+  );
+
+  server.tool(
+    "clear_cache",
+    "Removes entries from the local cache of fetched ZObjects and search results, so that they are fetched again from Wikifunctions. Without arguments the whole cache is cleared.",
+    {
+      kind: z
+        .enum(["function", "type", "implementation", "search", "other"])
+        .optional()
+        .describe("Only remove entries of this kind."),
+      zids: z
+        .array(z.string())
+        .optional()
+        .describe("Only remove these ZObjects, e.g. ['Z801', 'Z12345']."),
+    },
+    async ({ kind, zids }) => {
+      const removed = zobjectCache().clear({ kind, keys: zids });
+      // Type definitions and language codes read from the removed objects are read again as well.
+      if (kind === undefined || kind === "type") resetTypeSchemas(zids);
+      if (kind === undefined || kind === "other") resetLanguages(zids);
+      return {
+        content: [{ type: "text", text: `Removed ${removed} cache ${removed === 1 ? "entry" : "entries"}.` }],
+      };
+    }
+  );
+}
@@ -1,3 +1,5 @@
+import { canonicalize, isReference, terminalValue } from "./zobject.js";
+
 // A helper function to construct the detailed Z20838 (float64) object.
 function buildFloat64Object(
   positive: boolean,
@@ -48,185 +50,753 @@ function buildFloat64Object(
   };
 }
 
-export function convertValueToZObject(value: any, requiredTypeZid: string): any {
-  switch (requiredTypeZid) {
-    case "Z16683": {
-      // Logic to convert a JavaScript number/BigInt to a Wikifunctions Integer (Z16683) object.
-      const num = BigInt(value);
-      const absValue = num > 0n ? num : -num;
+// --- Generic types ---
+//
+// Generic types are Z7 calls to a type-returning function, e.g.
+// {Z1K1: "Z7", Z7K1: "Z881", Z881K1: "Z16683"} for a typed list of Integers.
+// Their compact textual form is "Z881(Z16683)".
 
-      let signZid;
-      if (num > 0n) {
-        signZid = "Z16660"; // Positive
-      } else if (num < 0n) {
-        signZid = "Z16662"; // Negative
-      } else {
-        signZid = "Z16661"; // Zero
-      }
+export type ZType = string | Record<string, any>;
 
-      return {
-        Z1K1: "Z16683",
-        Z16683K1: {
-          Z1K1: "Z16659",
-          Z16659K1: {
-            Z1K1: "Z9",
-            Z9K1: signZid,
-          },
-        },
-        Z16683K2: {
-          Z1K1: "Z13518",
-          Z13518K1: {
-            Z1K1: "Z6",
-            Z6K1: absValue.toString(),
-          },
-        },
-      };
-    }
+const TYPED_LIST = "Z881";
+const TYPED_PAIR = "Z882";
+const TYPED_MAP = "Z883";
 
-    case "Z20838": {
-      // Logic to convert a JavaScript number to a Wikifunctions float64 (Z20838) object.
-      const num = Number(value);
+function genericTypeFunction(type: ZType): string | null {
+  if (type && typeof type === "object" && type.Z1K1 === "Z7" && typeof type.Z7K1 === "string") {
+    return type.Z7K1;
+  }
+  return null;
+}
 
-      if (Number.isNaN(num)) {
-        return buildFloat64Object(true, 0, 0n, "Z20834");
-      }
-      if (num === Number.POSITIVE_INFINITY) {
-        return buildFloat64Object(true, 0, 0n, "Z20832");
-      }
-      if (num === Number.NEGATIVE_INFINITY) {
-        return buildFloat64Object(false, 0, 0n, "Z20833");
-      }
-      if (Object.is(num, -0)) {
-        return buildFloat64Object(false, 0, 0n, "Z20831");
-      }
-      if (num === 0) {
-        return buildFloat64Object(true, 0, 0n, "Z20829");
-      }
+/** The arguments of a generic type call, e.g. [Z6] for Z881(Z6), in canonical form. */
+export function genericTypeArguments(type: Record<string, any>): ZType[] {
+  const args: ZType[] = [];
+  for (let i = 1; Object.prototype.hasOwnProperty.call(type, `${type.Z7K1}K${i}`); i++) {
+    args.push(normalizeTypeReference(type[`${type.Z7K1}K${i}`]));
+  }
+  return args;
+}
 
-      const positive = num >= 0;
-      const absval = positive ? num : -num;
+function normalizeTypeReference(type: any): ZType {
+  // Types are compared and keyed in canonical form.
+  return canonicalize(type);
+}
 
-      const buffer = new ArrayBuffer(8);
-      const view = new DataView(buffer);
-      view.setFloat64(0, absval, false);
-      const i = view.getBigUint64(0, false);
+export function makeGenericType(functionZid: string, args: ZType[]): Record<string, any> {
+  const type: Record<string, any> = { Z1K1: "Z7", Z7K1: functionZid };
+  args.forEach((arg, index) => {
+    type[`${functionZid}K${index + 1}`] = arg;
+  });
+  return type;
+}
 
-      const exponent = (i >> 52n) - 1023n;
-      const mantisse = i % 2n ** 52n;
-      return buildFloat64Object(positive, Number(exponent), mantisse, "Z20837");
-    }
+export function formatType(type: ZType): string {
+  const normalized = normalizeTypeReference(type);
+  if (typeof normalized === "string") return normalized;
+  const functionZid = genericTypeFunction(normalized);
+  if (!functionZid) return JSON.stringify(normalized);
+  return `${functionZid}(${genericTypeArguments(normalized).map(formatType).join(",")})`;
+}
 
-    default: {
-      // For types that don't have special conversion logic, wrap them as a string-like object.
-      const valueKey = `${requiredTypeZid}K1`;
-      return {
-        Z1K1: requiredTypeZid,
-        [valueKey]: String(value),
-      };
+export function collectTypeZids(type: ZType): string[] {
+  const normalized = normalizeTypeReference(type);
+  if (typeof normalized === "string") return [normalized];
+  const functionZid = genericTypeFunction(normalized);
+  if (!functionZid) return [];
+  return [functionZid, ...genericTypeArguments(normalized).flatMap(collectTypeZids)];
+}
+
+/**
+ * Parses the compact form produced by `formatType`, e.g. "Z883(Z6,Z881(Z16683))".
+ * Returns null if the text does not start with a type expression.
+ */
+export function parseTypeExpression(text: string): ZType | null {
+  let pos = 0;
+  const source = text.trim();
+
+  function parse(): ZType | null {
+    const match = /^Z\d+/.exec(source.slice(pos));
+    if (!match) return null;
+    pos += match[0].length;
+    if (source[pos] !== "(") return match[0];
+
+    pos++;
+    const args: ZType[] = [];
+    while (source[pos] !== ")") {
+      while (source[pos] === " ") pos++;
+      const arg = parse();
+      if (arg === null) return null;
+      args.push(arg);
+      while (source[pos] === " ") pos++;
+      if (source[pos] === ",") pos++;
+      else if (source[pos] !== ")") return null;
     }
+    pos++;
+    return makeGenericType(match[0], args);
   }
+
+  return parse();
 }
 
-export function convertZObjectToValue(zObject: any): any {
-  if (!zObject || typeof zObject.Z1K1 !== "string") {
-    return zObject; // Not a valid Z-Object, return as is.
-  }
+/** JSON.stringify replacer for decoded values, which may contain BigInts. */
+export function bigintReplacer(_key: string, value: unknown): unknown {
+  return typeof value === "bigint" ? value.toString() : value;
+}
 
-  const type = zObject.Z1K1;
+export function isZObjectValue(value: any): boolean {
+  return !!value && typeof value === "object" && !Array.isArray(value) && "Z1K1" in value;
+}
 
-  switch (type) {
-    case "Z16683": {
-      // Logic to convert a Wikifunctions Integer (Z16683) object to a JavaScript BigInt.
-      let valueStr = zObject.Z16683K2?.Z13518K1;
-      if (typeof valueStr === "object" && valueStr !== null && valueStr.Z1K1 === "Z6") {
-        valueStr = valueStr.Z6K1;
-      }
+function convertNested(value: any, type: ZType): any {
+  return isZObjectValue(value) ? value : convertValueToZObject(value, type);
+}
 
-      if (typeof valueStr !== "string") {
-        return zObject; // Malformed integer object
-      }
+function convertGenericValue(value: any, type: Record<string, any>): any {
+  const functionZid = genericTypeFunction(type);
+  const args = genericTypeArguments(type);
 
-      const value = BigInt(valueStr);
-
-      let sign: any = zObject.Z16683K1?.Z16659K1;
-      while (typeof sign === "object" && sign !== null) {
-        if ("Z9K1" in sign) {
-          sign = sign.Z9K1;
-        } else if ("Z16659K1" in sign) {
-          sign = sign.Z16659K1;
-        } else {
-          sign = ""; // Break loop
-        }
+  switch (functionZid) {
+    case TYPED_LIST: {
+      const [itemType] = args;
+      if (!Array.isArray(value)) {
+        throw new Error(`Expected an array for a typed list of ${formatType(itemType)}, got ${typeof value}.`);
       }
+      // Canonical typed lists are benjamin arrays: the first element is the item type.
+      return [
+        itemType,
+        ...value.map((item, index) => {
+          try {
+            return convertNested(item, itemType);
+          } catch (error: any) {
+            throw new Error(`Item ${index + 1} of the list: ${error?.message || String(error)}`);
+          }
+        }),
+      ];
+    }
 
-      let signMultiplier: bigint;
-      if (sign === "Z16662") {
-        signMultiplier = -1n;
-      } else if (sign === "Z16661") {
-        signMultiplier = 0n;
+    case TYPED_PAIR: {
+      const [firstType, secondType] = args;
+      let first: any;
+      let second: any;
+      if (Array.isArray(value) && value.length === 2) {
+        [first, second] = value;
+      } else if (value && typeof value === "object" && "K1" in value && "K2" in value) {
+        first = value.K1;
+        second = value.K2;
       } else {
-        signMultiplier = 1n;
+        throw new Error(
+          `Expected a two-element array or an object with K1 and K2 for a typed pair of ${formatType(firstType)} and ${formatType(secondType)}.`
+        );
       }
+      return {
+        Z1K1: type,
+        K1: convertNested(first, firstType),
+        K2: convertNested(second, secondType),
+      };
+    }
 
-      if (value > 0n && signMultiplier === 0n) {
-        return value;
+    case TYPED_MAP: {
+      const [keyType, valueType] = args;
+      let entries: [any, any][];
+      if (value instanceof Map) {
+        entries = Array.from(value.entries());
+      } else if (Array.isArray(value)) {
+        entries = value.map((entry) => {
+          if (!Array.isArray(entry) || entry.length !== 2) {
+            throw new Error("Expected each typed map entry to be a [key, value] array.");
+          }
+          return [entry[0], entry[1]];
+        });
+      } else if (value && typeof value === "object") {
+        entries = Object.entries(value);
+      } else {
+        throw new Error(
+          `Expected an object or an array of [key, value] entries for a typed map from ${formatType(keyType)} to ${formatType(valueType)}.`
+        );
       }
 
-      return signMultiplier * value;
+      const pairType = makeGenericType(TYPED_PAIR, [keyType, valueType]);
+      return {
+        Z1K1: type,
+        K1: [pairType, ...entries.map(([k, v]) => convertGenericValue([k, v], pairType))],
+      };
     }
-    
-    case "Z20838": {
-      // Logic to convert a Wikifunctions float64 (Z20838) object back to a JavaScript number.
-      const special = zObject.Z20838K4?.Z20825K1;
-      switch (special) {
-        case "Z20834":
-          return NaN;
-        case "Z20832":
-          return Number.POSITIVE_INFINITY;
-        case "Z20833":
-          return Number.NEGATIVE_INFINITY;
-        case "Z20831":
-          return -0;
-        case "Z20829":
-          return 0;
-      }
 
-      const positive = zObject.Z20838K1?.Z16659K1 === "Z16660";
-      const exponentSign = zObject.Z20838K2?.Z16683K1?.Z16659K1;
-      const exponentStr = zObject.Z20838K2?.Z16683K2?.Z13518K1;
-      const mantisseStr = zObject.Z20838K3?.Z13518K1;
+    default:
+      throw new Error(`Unsupported generic type ${formatType(type)}.`);
+  }
+}
 
-      if (exponentStr === undefined || mantisseStr === undefined) {
-        return zObject; // Malformed object
-      }
+// --- Simple types ---
 
-      let exponent = BigInt(exponentStr);
-      if (exponentSign === "Z16662") {
-        exponent = -exponent;
-      }
+const BOOLEAN_TRUE = "Z41";
+const BOOLEAN_FALSE = "Z42";
 
-      const mantisse = BigInt(mantisseStr);
+// Gregorian calendar date (Z20420) and its component types.
+const GREGORIAN_DATE = "Z20420";
+const GREGORIAN_YEAR = "Z20159";
+const GREGORIAN_MONTH = "Z16098";
+const ERA_CE = "Z17814";
+const ERA_BCE = "Z17815";
+// January is Z16101, December is Z16112.
+const FIRST_MONTH_ZID = 16101;
+const MONTH_NAMES = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
 
-      const i = (exponent + 1023n << 52n) + mantisse;
+const REFERENCE_PATTERN = /^Z[1-9]\d*(K[1-9]\d*)?$/;
 
-      const buffer = new ArrayBuffer(8);
-      const view = new DataView(buffer);
-      view.setBigUint64(0, i, false);
-      let value = view.getFloat64(0, false);
+function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "string") return `the string "${value}"`;
+  if (typeof value === "object") return "an object";
+  return `${typeof value} ${String(value)}`;
+}
 
-      if (!positive) {
-        value = -value;
-      }
-      return value;
+function buildString(value: any): any {
+  if (value === null || value === undefined || typeof value === "object") {
+    throw new Error(`Cannot represent ${describeValue(value)} as a String (Z6).`);
+  }
+  return { Z1K1: "Z6", Z6K1: String(value) };
+}
+
+function buildReference(value: any): any {
+  if (typeof value !== "string" || !REFERENCE_PATTERN.test(value)) {
+    throw new Error(`Cannot represent ${describeValue(value)} as a reference (Z9); expected a ZID like "Z801".`);
+  }
+  return { Z1K1: "Z9", Z9K1: value };
+}
+
+function buildBoolean(value: any): any {
+  let flag: boolean;
+  if (typeof value === "boolean") {
+    flag = value;
+  } else if (typeof value === "string" && /^(true|false)$/i.test(value.trim())) {
+    flag = value.trim().toLowerCase() === "true";
+  } else if (value === BOOLEAN_TRUE || value === BOOLEAN_FALSE) {
+    flag = value === BOOLEAN_TRUE;
+  } else {
+    throw new Error(`Cannot represent ${describeValue(value)} as a Boolean (Z40); expected true or false.`);
+  }
+  return { Z1K1: "Z40", Z40K1: flag ? BOOLEAN_TRUE : BOOLEAN_FALSE };
+}
+
+function parseNaturalNumber(value: any, typeName: string): bigint {
+  if (typeof value === "bigint") {
+    if (value < 0n) throw new Error(`Cannot represent negative number ${value} as a ${typeName}.`);
+    return value;
+  }
+  if (typeof value === "number") {
+    if (!Number.isInteger(value)) throw new Error(`Cannot represent non-integer ${value} as a ${typeName}.`);
+    if (value < 0) throw new Error(`Cannot represent negative number ${value} as a ${typeName}.`);
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(`Cannot represent ${value} exactly as a ${typeName}; pass it as a string instead.`);
     }
+    return BigInt(value);
+  }
+  if (typeof value === "string" && /^\s*\d+\s*$/.test(value)) {
+    return BigInt(value.trim());
+  }
+  throw new Error(`Cannot represent ${describeValue(value)} as a ${typeName}; expected a non-negative integer.`);
+}
 
-    // Default case for simple string-like values (Z6, Z13518, etc.)
-    default: {
-      const valueKey = `${type}K1`;
-      if (Object.prototype.hasOwnProperty.call(zObject, valueKey)) {
-        return zObject[valueKey];
-      }
-      return zObject; // Return the full object if the structure is not recognized.
+function buildNaturalNumber(value: any): any {
+  const num = parseNaturalNumber(value, "Natural number (Z13518)");
+  return { Z1K1: "Z13518", Z13518K1: { Z1K1: "Z6", Z6K1: num.toString() } };
+}
+
+function buildNaturalLanguage(value: any): any {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new Error(`Cannot represent ${describeValue(value)} as a Natural language (Z60); expected a language code like "en".`);
+  }
+  return { Z1K1: "Z60", Z60K1: value.trim() };
+}
+
+function buildMonolingualText(value: any): any {
+  if (!value || typeof value !== "object" || Array.isArray(value) || typeof value.text !== "string") {
+    throw new Error(
+      `Cannot represent ${describeValue(value)} as a Monolingual text (Z11); expected {"language": "en", "text": "..."}.`
+    );
+  }
+  const language = value.language;
+  // A ZID such as "Z1002" is passed as a reference, anything else is taken as a language code.
+  const languageObject =
+    typeof language === "string" && REFERENCE_PATTERN.test(language) ? language : buildNaturalLanguage(language);
+  return { Z1K1: "Z11", Z11K1: languageObject, Z11K2: value.text };
+}
+
+function buildGregorianYear(value: any): any {
+  const year = typeof value === "string" && /^\s*-?\d+\s*$/.test(value) ? Number(value) : value;
+  if (typeof year !== "number" || !Number.isSafeInteger(year) || year === 0) {
+    throw new Error(
+      `Cannot represent ${describeValue(value)} as a Gregorian year (Z20159); expected a non-zero integer (negative for BCE).`
+    );
+  }
+  return {
+    Z1K1: GREGORIAN_YEAR,
+    Z20159K1: year > 0 ? ERA_CE : ERA_BCE,
+    Z20159K2: buildNaturalNumber(Math.abs(year)),
+  };
+}
+
+function buildGregorianMonth(value: any): any {
+  let month: number | undefined;
+  if (typeof value === "number" || (typeof value === "string" && /^\s*\d+\s*$/.test(value))) {
+    month = Number(value);
+  } else if (typeof value === "string") {
+    const index = MONTH_NAMES.indexOf(value.trim().toLowerCase());
+    month = index === -1 ? undefined : index + 1;
+  }
+  if (month === undefined || !Number.isInteger(month) || month < 1 || month > 12) {
+    throw new Error(
+      `Cannot represent ${describeValue(value)} as a Gregorian calendar month (Z16098); expected 1-12 or an English month name.`
+    );
+  }
+  return `Z${FIRST_MONTH_ZID + month - 1}`;
+}
+
+function buildGregorianDate(value: any): any {
+  let parts: { year: any; month: any; day: any };
+  const match = typeof value === "string" ? /^\s*(-?\d+)-(\d{1,2})-(\d{1,2})\s*$/.exec(value) : null;
+  if (match) {
+    parts = { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+  } else if (value && typeof value === "object" && !Array.isArray(value) && "year" in value) {
+    parts = value;
+  } else {
+    throw new Error(
+      `Cannot represent ${describeValue(value)} as a Gregorian calendar date (Z20420); expected "YYYY-MM-DD" or {"year", "month", "day"}.`
+    );
+  }
+
+  const year = buildGregorianYear(parts.year);
+  const month = buildGregorianMonth(parts.month);
+  const day = Number(parts.day);
+  const yearNumber = readGregorianYear(year)!;
+  const monthNumber = readGregorianMonth(month)!;
+  const lastDay = daysInMonth(yearNumber, monthNumber);
+  if (!Number.isInteger(day) || day < 1 || day > lastDay) {
+    throw new Error(
+      `Cannot represent day ${String(parts.day)} in a Gregorian calendar date (Z20420); month ${monthNumber} of ${yearNumber} has ${lastDay} days.`
+    );
+  }
+  return {
+    Z1K1: GREGORIAN_DATE,
+    Z20420K1: year,
+    Z20420K2: month,
+    Z20420K3: buildNaturalNumber(day),
+  };
+}
+
+/** The number of days of a month (1-12) in the proleptic Gregorian calendar, where 1 BCE is a leap year. */
+function daysInMonth(year: number, month: number): number {
+  // There is no year 0: 1 BCE (-1) is astronomical year 0.
+  const astronomical = year < 0 ? year + 1 : year;
+  const leap = astronomical % 4 === 0 && (astronomical % 100 !== 0 || astronomical % 400 === 0);
+  return month === 2 ? (leap ? 29 : 28) : [4, 6, 9, 11].includes(month) ? 30 : 31;
+}
+
+function readNaturalNumber(zObject: any): bigint | undefined {
+  const digits = terminalValue(zObject?.Z13518K1);
+  return typeof digits === "string" && /^\d+$/.test(digits) ? BigInt(digits) : undefined;
+}
+
+function readGregorianYear(zObject: any): number | undefined {
+  const year = readNaturalNumber(zObject?.Z20159K2);
+  if (year === undefined) return undefined;
+  // The era (Z17813) may be a reference or an expanded instance.
+  const era = terminalValue(zObject?.Z20159K1?.Z17813K1 ?? zObject?.Z20159K1);
+  return era === ERA_BCE ? -Number(year) : Number(year);
+}
+
+function readGregorianMonth(zObject: any): number | undefined {
+  const zid = terminalValue(zObject?.Z16098K1 ?? zObject);
+  if (typeof zid !== "string") return undefined;
+  const month = Number(zid.slice(1)) - FIRST_MONTH_ZID + 1;
+  return month >= 1 && month <= 12 ? month : undefined;
+}
+
+function readGregorianDate(zObject: any): string | undefined {
+  const year = readGregorianYear(zObject.Z20420K1);
+  const month = readGregorianMonth(zObject.Z20420K2);
+  const day = readNaturalNumber(zObject.Z20420K3);
+  if (year === undefined || month === undefined || day === undefined) return undefined;
+  const yearText = `${year < 0 ? "-" : ""}${String(Math.abs(year)).padStart(4, "0")}`;
+  return `${yearText}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function parseInteger(value: any): bigint {
+  if (typeof value === "bigint") return value;
+  if (typeof value === "number") {
+    if (!Number.isInteger(value)) throw new Error(`Cannot represent non-integer ${value} as an Integer (Z16683).`);
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(`Cannot represent ${value} exactly as an Integer (Z16683); pass it as a string instead.`);
     }
+    return BigInt(value);
+  }
+  if (typeof value === "string" && /^\s*[+-]?\d+\s*$/.test(value)) {
+    return BigInt(value.trim());
+  }
+  throw new Error(`Cannot represent ${describeValue(value)} as an Integer (Z16683); expected a whole number.`);
+}
+
+function buildInteger(value: any): any {
+  // Logic to convert a JavaScript number/BigInt to a Wikifunctions Integer (Z16683) object.
+  const num = parseInteger(value);
+  const absValue = num > 0n ? num : -num;
+
+  let signZid;
+  if (num > 0n) {
+    signZid = "Z16660"; // Positive
+  } else if (num < 0n) {
+    signZid = "Z16662"; // Negative
+  } else {
+    signZid = "Z16661"; // Zero
+  }
+
+  return {
+    Z1K1: "Z16683",
+    Z16683K1: {
+      Z1K1: "Z16659",
+      Z16659K1: {
+        Z1K1: "Z9",
+        Z9K1: signZid,
+      },
+    },
+    Z16683K2: {
+      Z1K1: "Z13518",
+      Z13518K1: {
+        Z1K1: "Z6",
+        Z6K1: absValue.toString(),
+      },
+    },
+  };
+}
+
+/** The ZID of a sign (Z16659), given as an instance or as a reference to one of its values. */
+function readSign(sign: any): string | undefined {
+  const value = terminalValue(sign?.Z16659K1 ?? sign);
+  return typeof value === "string" ? value : undefined;
+}
+
+function readInteger(zObject: any): any {
+  // Logic to convert a Wikifunctions Integer (Z16683) object to a JavaScript BigInt.
+  const value = readNaturalNumber(zObject.Z16683K2);
+  if (value === undefined) {
+    return zObject; // Malformed integer object
+  }
+
+  const sign = readSign(zObject.Z16683K1);
+  let signMultiplier: bigint;
+  if (sign === "Z16662") {
+    signMultiplier = -1n;
+  } else if (sign === "Z16661") {
+    signMultiplier = 0n;
+  } else {
+    signMultiplier = 1n;
+  }
+
+  if (value > 0n && signMultiplier === 0n) {
+    return value;
+  }
+
+  return signMultiplier * value;
+}
+
+function parseFloat64(value: any): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "bigint") return Number(value);
+  if (typeof value === "string") {
+    const text = value.trim();
+    if (text === "NaN") return NaN;
+    // Number() also reads "Infinity" and "-Infinity".
+    if (text !== "" && !Number.isNaN(Number(text))) return Number(text);
+  }
+  throw new Error(`Cannot represent ${describeValue(value)} as a float64 (Z20838); expected a number.`);
+}
+
+function buildFloat64(value: any): any {
+  // Logic to convert a JavaScript number to a Wikifunctions float64 (Z20838) object.
+  const num = parseFloat64(value);
+
+  if (Number.isNaN(num)) {
+    return buildFloat64Object(true, 0, 0n, "Z20834");
+  }
+  if (num === Number.POSITIVE_INFINITY) {
+    return buildFloat64Object(true, 0, 0n, "Z20832");
+  }
+  if (num === Number.NEGATIVE_INFINITY) {
+    return buildFloat64Object(false, 0, 0n, "Z20833");
+  }
+  if (Object.is(num, -0)) {
+    return buildFloat64Object(false, 0, 0n, "Z20831");
+  }
+  if (num === 0) {
+    return buildFloat64Object(true, 0, 0n, "Z20829");
+  }
+
+  const positive = num >= 0;
+  const absval = positive ? num : -num;
+
+  const buffer = new ArrayBuffer(8);
+  const view = new DataView(buffer);
+  view.setFloat64(0, absval, false);
+  const i = view.getBigUint64(0, false);
+
+  const exponent = (i >> 52n) - 1023n;
+  const mantisse = i % 2n ** 52n;
+  return buildFloat64Object(positive, Number(exponent), mantisse, "Z20837");
+}
+
+function readFloat64(zObject: any): any {
+  // Logic to convert a Wikifunctions float64 (Z20838) object back to a JavaScript number.
+  const special = terminalValue(zObject.Z20838K4?.Z20825K1 ?? zObject.Z20838K4);
+  switch (special) {
+    case "Z20834":
+      return NaN;
+    case "Z20832":
+      return Number.POSITIVE_INFINITY;
+    case "Z20833":
+      return Number.NEGATIVE_INFINITY;
+    case "Z20831":
+      return -0;
+    case "Z20829":
+      return 0;
+  }
+
+  const positive = readSign(zObject.Z20838K1) !== "Z16662";
+  const exponentMagnitude = readNaturalNumber(zObject.Z20838K2?.Z16683K2);
+  const mantisse = readNaturalNumber(zObject.Z20838K3);
+
+  if (exponentMagnitude === undefined || mantisse === undefined) {
+    return zObject; // Malformed object
+  }
+
+  const exponent = readSign(zObject.Z20838K2?.Z16683K1) === "Z16662" ? -exponentMagnitude : exponentMagnitude;
+
+  const i = (exponent + 1023n << 52n) + mantisse;
+
+  const buffer = new ArrayBuffer(8);
+  const view = new DataView(buffer);
+  view.setBigUint64(0, i, false);
+  let value = view.getFloat64(0, false);
+
+  if (!positive) {
+    value = -value;
+  }
+  return value;
+}
+
+// --- Converter registry ---
+//
+// Converters are keyed by type ZID. Generic types are keyed by the ZID of the
+// function that builds them, e.g. Z881 for every typed list.
+
+export interface TypeConverter {
+  toZObject(value: any, type: ZType): any;
+  fromZObject(zObject: any): any;
+}
+
+const converters = new Map<string, TypeConverter>();
+const nativeConverterZids = new Set<string>();
+// Types whose Z4 definition has been read, whether or not it gave a converter.
+const loadedTypeZids = new Set<string>();
+
+export function registerConverter(zid: string, converter: TypeConverter): void {
+  converters.set(zid, converter);
+}
+
+export function hasConverter(zid: string): boolean {
+  return converters.has(zid);
+}
+
+/** Records that a type's definition has been read; see `loadTypeConverters`. */
+export function markTypeLoaded(zid: string): void {
+  loadedTypeZids.add(zid);
+}
+
+/** Forgets a type's definition and schema converter; native converters stay. */
+export function unloadType(zid: string): void {
+  loadedTypeZids.delete(zid);
+  if (!nativeConverterZids.has(zid)) converters.delete(zid);
+}
+
+/** True if the type is handled by the converters built into this module. */
+export function isNativeConverter(zid: string): boolean {
+  return nativeConverterZids.has(zid);
+}
+
+function registerNative(zid: string, converter: TypeConverter): void {
+  registerConverter(zid, converter);
+  nativeConverterZids.add(zid);
+}
+
+function converterKey(type: ZType): string | null {
+  return typeof type === "string" ? type : genericTypeFunction(type);
+}
+
+registerNative("Z6", { toZObject: buildString, fromZObject: terminalValue });
+registerNative("Z9", { toZObject: buildReference, fromZObject: terminalValue });
+
+registerNative("Z40", {
+  toZObject: buildBoolean,
+  fromZObject: (zObject) => {
+    const flag = terminalValue(zObject.Z40K1?.Z40K1 ?? zObject.Z40K1);
+    if (flag === BOOLEAN_TRUE) return true;
+    if (flag === BOOLEAN_FALSE) return false;
+    return zObject;
+  },
+});
+
+registerNative("Z13518", {
+  toZObject: buildNaturalNumber,
+  fromZObject: (zObject) => readNaturalNumber(zObject) ?? zObject,
+});
+
+registerNative("Z11", {
+  toZObject: buildMonolingualText,
+  fromZObject: (zObject) => {
+    const language = zObject.Z11K1;
+    return {
+      language:
+        language && typeof language === "object" && language.Z1K1 === "Z60"
+          ? terminalValue(language.Z60K1)
+          : terminalValue(language),
+      text: terminalValue(zObject.Z11K2),
+    };
+  },
+});
+
+registerNative("Z60", {
+  toZObject: buildNaturalLanguage,
+  fromZObject: (zObject) => terminalValue(zObject.Z60K1),
+});
+
+registerNative(GREGORIAN_YEAR, {
+  toZObject: buildGregorianYear,
+  fromZObject: (zObject) => readGregorianYear(zObject) ?? zObject,
+});
+
+registerNative(GREGORIAN_MONTH, {
+  toZObject: buildGregorianMonth,
+  fromZObject: (zObject) => readGregorianMonth(zObject) ?? zObject,
+});
+
+registerNative(GREGORIAN_DATE, {
+  toZObject: buildGregorianDate,
+  fromZObject: (zObject) => readGregorianDate(zObject) ?? zObject,
+});
+
+registerNative("Z16683", { toZObject: buildInteger, fromZObject: readInteger });
+registerNative("Z20838", { toZObject: buildFloat64, fromZObject: readFloat64 });
+
+registerNative(TYPED_LIST, {
+  toZObject: (value, type) => convertGenericValue(value, type as Record<string, any>),
+  // Canonical typed lists are arrays, which `fromCanonical` handles itself.
+  fromZObject: (zObject) => zObject,
+});
+
+registerNative(TYPED_PAIR, {
+  toZObject: (value, type) => convertGenericValue(value, type as Record<string, any>),
+  fromZObject: (zObject) => [fromCanonical(zObject.K1), fromCanonical(zObject.K2)],
+});
+
+registerNative(TYPED_MAP, {
+  toZObject: (value, type) => convertGenericValue(value, type as Record<string, any>),
+  fromZObject: (zObject) => {
+    const keyType = normalizeTypeReference(zObject.Z1K1?.Z883K1);
+    const pairs: any[] = Array.isArray(zObject.K1) ? zObject.K1.slice(1) : [];
+    const entries = pairs.map((pair) => [fromCanonical(pair?.K1), fromCanonical(pair?.K2)]);
+    // String-keyed maps become plain objects; anything else stays a list of entries.
+    return keyType === "Z6" ? Object.fromEntries(entries) : entries;
+  },
+});
+
+// --- Native JSON forms ---
+//
+// How values of the natively converted types are written as plain JSON, with
+// a minimal example. Examples of generic types depend on their arguments.
+
+export interface NativeJsonForm {
+  form: string;
+  example?: unknown;
+}
+
+const NATIVE_JSON_FORMS: Record<string, NativeJsonForm> = {
+  Z6: { form: "a JSON string", example: "text" },
+  Z9: { form: 'a ZID string, e.g. "Z801"', example: "Z801" },
+  Z40: { form: "true or false", example: true },
+  Z13518: { form: "a non-negative whole number, or a string of digits", example: 1 },
+  Z11: { form: '{"language": "en", "text": "..."}, with a language code or ZID', example: { language: "en", text: "text" } },
+  Z60: { form: 'a language code, e.g. "en"', example: "en" },
+  [GREGORIAN_YEAR]: { form: "a non-zero whole number, negative for BCE", example: 2024 },
+  [GREGORIAN_MONTH]: { form: "1-12 or an English month name", example: 1 },
+  [GREGORIAN_DATE]: { form: '"YYYY-MM-DD" or {"year", "month", "day"}', example: "2024-01-31" },
+  Z16683: { form: "a whole number, or a string of digits for large values", example: -1 },
+  Z20838: { form: 'a number, or "NaN", "Infinity" or "-Infinity"', example: 0.5 },
+  [TYPED_LIST]: { form: "an array of the items" },
+  [TYPED_PAIR]: { form: "an array of the two values, [first, second]" },
+  [TYPED_MAP]: { form: "an object if the keys are Strings, otherwise an array of [key, value] arrays" },
+};
+
+/** The plain JSON form of a natively converted type (or generic type function such as Z881). */
+export function nativeJsonForm(zid: string): NativeJsonForm | undefined {
+  return NATIVE_JSON_FORMS[zid];
+}
+
+export function convertValueToZObject(value: any, requiredType: ZType): any {
+  const normalizedType = normalizeTypeReference(requiredType);
+  const key = converterKey(normalizedType);
+  const converter = key ? converters.get(key) : undefined;
+  if (converter) {
+    return converter.toZObject(value, normalizedType);
+  }
+
+  if (typeof normalizedType !== "string") {
+    throw new Error(`Unsupported generic type ${formatType(normalizedType)}.`);
+  }
+
+  if (!loadedTypeZids.has(normalizedType)) {
+    throw new Error(
+      `Type ${normalizedType} is not loaded; call loadTypeConverters before converting values to it (if it was called, ${normalizedType} could not be fetched or is not a type).`
+    );
+  }
+  // A type without keys, such as an enumeration, has its instances as values.
+  if (isReference(value)) {
+    return value;
+  }
+  throw new Error(
+    `Cannot represent ${describeValue(value)} as ${normalizedType}; the type has no keys to build an instance from, so give the ZID of an instance instead.`
+  );
+}
+
+/** Converts a ZObject in either canonical or normal form to plain JSON. */
+export function convertZObjectToValue(zObject: any): any {
+  return fromCanonical(canonicalize(zObject));
+}
+
+function fromCanonical(zObject: any): any {
+  if (Array.isArray(zObject)) {
+    // Benjamin array: the first element is the item type.
+    return zObject.slice(1).map(fromCanonical);
+  }
+
+  if (!zObject || typeof zObject !== "object" || !zObject.Z1K1) {
+    return zObject; // Not a valid Z-Object, return as is.
+  }
+
+  const key = converterKey(normalizeTypeReference(zObject.Z1K1));
+  const converter = key ? converters.get(key) : undefined;
+  if (converter) {
+    return converter.fromZObject(zObject);
+  }
+
+  // Default case for other string-like values
+  const valueKey = `${zObject.Z1K1}K1`;
+  if (typeof zObject.Z1K1 === "string" && Object.prototype.hasOwnProperty.call(zObject, valueKey)) {
+    return zObject[valueKey];
   }
+  return zObject; // Return the full object if the structure is not recognized.
 }
@@ -0,0 +1,339 @@
+import {
+  collectTypeZids,
+  convertValueToZObject,
+  convertZObjectToValue,
+  genericTypeArguments,
+  hasConverter,
+  isNativeConverter,
+  isZObjectValue,
+  markTypeLoaded,
+  nativeJsonForm,
+  registerConverter,
+  TypeConverter,
+  unloadType,
+  ZType,
+} from "./type-converter.js";
+import { collectLanguageZids, loadLanguages, pickLabel } from "./languages.js";
+import { getMultipleDetails } from "./wikifunctions-api.js";
+import { canonicalize, isReference, listItems, terminalValue } from "./zobject.js";
+
+// --- Schema-driven converters ---
+//
+// Types without a native converter are described by their Z4 definition. The
+// keys in Z4K2 are enough to build instances from plain JSON objects keyed by
+// key label (or key ID) and to turn instances back into such objects.
+
+export interface TypeKeyDescription {
+  key: string;
+  label: string;
+  type: ZType;
+}
+
+export interface TypeCodeConverterDescription {
+  zid: string;
+  label: string;
+  direction: "to code" | "from code";
+  programmingLanguage?: string;
+  nativeType?: string;
+}
+
+export interface TypeDescription {
+  zid: string;
+  label: string;
+  native: boolean;
+  keys: TypeKeyDescription[];
+  codeConverters: TypeCodeConverterDescription[];
+  /** Z4K3: the function that checks instances. */
+  validator?: string;
+  /** Z4K4: the function that compares two instances. */
+  equality?: string;
+  /** Z4K5: the function that renders instances as text. */
+  renderer?: string;
+  /** Z4K6: the function that parses text into instances. */
+  parser?: string;
+}
+
+const descriptions = new Map<string, TypeDescription>();
+// ZIDs that were fetched successfully but turned out not to be types.
+const nonTypeZids = new Set<string>();
+// The objects the entries above were read from, as JSON. Lookups go through
+// the ZObject cache, so a definition is read again once its object changed
+// there, and a cleared or expired entry is fetched and checked again.
+const sources = new Map<string, string>();
+
+function labelOf(multilingualList: any): string | undefined {
+  return pickLabel(multilingualList)?.text;
+}
+
+function describeCodeConverter(
+  zid: string,
+  persistent: any,
+  direction: TypeCodeConverterDescription["direction"]
+): TypeCodeConverterDescription {
+  const value = persistent?.Z2K2 ?? persistent;
+  // Z46 (to code) and Z64 (from code) share the same key layout.
+  const prefix = direction === "to code" ? "Z46" : "Z64";
+  const code = value?.[`${prefix}K3`];
+  const language = terminalValue(code?.Z16K1);
+  return {
+    zid,
+    label: labelOf(persistent?.Z2K3?.Z12K1) ?? zid,
+    direction,
+    programmingLanguage:
+      language && typeof language === "object" ? terminalValue(language.Z61K1) : language,
+    nativeType: terminalValue(value?.[`${prefix}K4`]),
+  };
+}
+
+function parseTypeDefinition(zid: string, persistent: any): TypeDescription {
+  const definition = persistent.Z2K2;
+  const keys: TypeKeyDescription[] = listItems(definition.Z4K2).map((keyDef: any) => ({
+    key: terminalValue(keyDef?.Z3K2),
+    label: labelOf(keyDef?.Z3K3?.Z12K1) ?? terminalValue(keyDef?.Z3K2),
+    type: terminalValue(keyDef?.Z3K1),
+  }));
+
+  const reference = (value: any) => {
+    const zid = terminalValue(value);
+    return isReference(zid) ? zid : undefined;
+  };
+
+  return {
+    zid,
+    label: labelOf(persistent?.Z2K3?.Z12K1) ?? zid,
+    native: isNativeConverter(zid),
+    keys: keys.filter((key) => typeof key.key === "string"),
+    codeConverters: [],
+    validator: reference(definition.Z4K3),
+    equality: reference(definition.Z4K4),
+    renderer: reference(definition.Z4K5),
+    parser: reference(definition.Z4K6),
+  };
+}
+
+async function attachCodeConverters(zid: string, persistent: any, description: TypeDescription): Promise<void> {
+  const definition = persistent.Z2K2;
+  const entries: { ref: any; direction: TypeCodeConverterDescription["direction"] }[] = [
+    ...listItems(definition.Z4K7).map((ref) => ({ ref, direction: "to code" as const })),
+    ...listItems(definition.Z4K8).map((ref) => ({ ref, direction: "from code" as const })),
+  ];
+  if (entries.length === 0) return;
+
+  const referenced = entries
+    .map((entry) => terminalValue(entry.ref))
+    .filter((ref): ref is string => typeof ref === "string");
+  const details = await getMultipleDetails(referenced);
+
+  description.codeConverters = entries.map(({ ref, direction }) => {
+    const refZid = terminalValue(ref);
+    return typeof refZid === "string"
+      ? describeCodeConverter(refZid, details[refZid], direction)
+      : describeCodeConverter(`${zid} (inline)`, ref, direction);
+  });
+}
+
+function keyNames(key: TypeKeyDescription): string[] {
+  const local = key.key.replace(/^Z\d+/, "");
+  return Array.from(new Set([key.label, key.key, local]));
+}
+
+function schemaConverter(description: TypeDescription): TypeConverter {
+  const typeName = `${description.label} (${description.zid})`;
+  const expected = description.keys.map((key) => `'${key.label}'`).join(", ");
+
+  return {
+    toZObject(value: any): any {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        throw new Error(`Expected an object with the keys ${expected} for ${typeName}.`);
+      }
+
+      const result: Record<string, any> = { Z1K1: description.zid };
+      const used = new Set<string>();
+      for (const key of description.keys) {
+        const name = keyNames(key).find((candidate) => Object.prototype.hasOwnProperty.call(value, candidate));
+        if (name === undefined) {
+          throw new Error(`Missing key '${key.label}' (${key.key}) for ${typeName}.`);
+        }
+        used.add(name);
+        const keyValue = value[name];
+        result[key.key] = isZObjectValue(keyValue) ? keyValue : convertValueToZObject(keyValue, key.type);
+      }
+
+      const unknown = Object.keys(value).filter((name) => !used.has(name));
+      if (unknown.length > 0) {
+        throw new Error(`Unknown keys ${unknown.map((k) => `'${k}'`).join(", ")} for ${typeName}; expected ${expected}.`);
+      }
+      return result;
+    },
+
+    fromZObject(zObject: any): any {
+      const result: Record<string, any> = {};
+      for (const key of description.keys) {
+        if (!(key.key in zObject)) continue;
+        const name = key.label in result ? key.key : key.label;
+        result[name] = convertZObjectToValue(zObject[key.key]);
+      }
+      return result;
+    },
+  };
+}
+
+async function fetchDescriptions(zids: string[]): Promise<TypeDescription[]> {
+  const details = await getMultipleDetails(zids);
+  // Objects that were not fetched keep what was read from them before.
+  const wanted = zids.filter((zid) => details[zid] && sources.get(zid) !== JSON.stringify(details[zid]));
+  if (wanted.length > 0) {
+    resetTypeSchemas(wanted);
+    await loadLanguages(
+      collectLanguageZids(
+        ...wanted.flatMap((zid) => [
+          details[zid]?.Z2K3?.Z12K1,
+          ...listItems(details[zid]?.Z2K2?.Z4K2).map((keyDef: any) => keyDef?.Z3K3?.Z12K1),
+        ])
+      )
+    );
+    for (const zid of wanted) {
+      const persistent = details[zid];
+      sources.set(zid, JSON.stringify(persistent));
+      if (terminalValue(persistent?.Z2K2?.Z1K1) !== "Z4") {
+        nonTypeZids.add(zid);
+        continue;
+      }
+      const description = parseTypeDefinition(zid, persistent);
+      await attachCodeConverters(zid, persistent, description);
+      descriptions.set(zid, description);
+    }
+  }
+  return zids.map((zid) => descriptions.get(zid)).filter((d): d is TypeDescription => !!d);
+}
+
+/**
+ * Makes sure every type referenced by `types` (including the key types of
+ * composite types, recursively) has a converter, registering schema-driven
+ * converters for types without a native one. The definitions of each level
+ * are fetched in one batch.
+ */
+export async function loadTypeConverters(types: ZType | ZType[]): Promise<void> {
+  const visited = new Set<string>();
+  let pending = (Array.isArray(types) ? types : [types]).flatMap(collectTypeZids);
+
+  while (pending.length > 0) {
+    const batch = Array.from(new Set(pending)).filter((zid) => !visited.has(zid) && !isNativeConverter(zid));
+    batch.forEach((zid) => visited.add(zid));
+    if (batch.length === 0) break;
+
+    pending = [];
+    for (const description of await fetchDescriptions(batch)) {
+      markTypeLoaded(description.zid);
+      if (description.keys.length > 0 && !hasConverter(description.zid)) {
+        registerConverter(description.zid, schemaConverter(description));
+      }
+      pending.push(...description.keys.flatMap((key) => collectTypeZids(key.type)));
+    }
+  }
+}
+
+/**
+ * Forgets the definitions read for the given types, or for all types, so
+ * that they are fetched again and their converters rebuilt on next use.
+ */
+export function resetTypeSchemas(zids?: string[]): void {
+  for (const zid of zids ?? [...sources.keys()]) {
+    sources.delete(zid);
+    descriptions.delete(zid);
+    nonTypeZids.delete(zid);
+    unloadType(zid);
+  }
+}
+
+/** Describes a type from its Z4 definition, whether or not it has a native converter. */
+export async function describeType(zid: string): Promise<TypeDescription | null> {
+  const [description] = await fetchDescriptions([zid]);
+  return description ?? null;
+}
+
+/**
+ * The keys of lists, pairs and maps, which are built by calling Z881, Z882
+ * and Z883 and so have no Z4 to read them from. Empty for other generic types.
+ */
+export function genericTypeKeys(type: Record<string, any>): TypeKeyDescription[] {
+  const [first = "Z1", second = "Z1"] = genericTypeArguments(type);
+  switch (type.Z7K1) {
+    case "Z881":
+      return [
+        { key: "K1", label: "head", type: first },
+        { key: "K2", label: "tail", type },
+      ];
+    case "Z882":
+      return [
+        { key: "K1", label: "first", type: first },
+        { key: "K2", label: "second", type: second },
+      ];
+    case "Z883":
+      return [{ key: "K1", label: "entries", type: { Z1K1: "Z7", Z7K1: "Z881", Z881K1: { Z1K1: "Z7", Z7K1: "Z882", Z882K1: first, Z882K2: second } } }];
+    default:
+      return [];
+  }
+}
+
+// --- Examples ---
+
+export interface TypeExample {
+  /** The value as plain JSON, in the form run_template accepts. */
+  json: unknown;
+  /** The same value as a ZObject in canonical form. */
+  zobject: any;
+}
+
+// Any ZObject (Z1) is shown as a String.
+const ANY_EXAMPLE = { Z1K1: "Z6", Z6K1: "text" };
+
+/** `path` holds the types being built, so that recursive types end instead of looping. */
+function exampleFor(type: ZType, path: string[]): unknown {
+  if (typeof type !== "string") {
+    const args = genericTypeArguments(type);
+    const [first, second] = args.map((arg) => exampleFor(arg, path));
+    switch (type.Z7K1) {
+      case "Z881":
+        return first === undefined ? [] : [first];
+      case "Z882":
+        return first === undefined || second === undefined ? undefined : [first, second];
+      case "Z883":
+        if (first === undefined || second === undefined) return {};
+        return canonicalize(args[0]) === "Z6" ? { [String(first)]: second } : [[first, second]];
+      default:
+        return undefined;
+    }
+  }
+
+  if (type === "Z1") return ANY_EXAMPLE;
+  const native = nativeJsonForm(type);
+  if (native?.example !== undefined) return native.example;
+
+  const description = descriptions.get(type);
+  if (!description || path.includes(type)) return undefined;
+  // Instances of keyless types are references to existing objects.
+  if (description.keys.length === 0) return undefined;
+  const example: Record<string, unknown> = {};
+  for (const key of description.keys) {
+    const value = exampleFor(key.type, [...path, type]);
+    if (value === undefined) return undefined;
+    example[key.label in example ? key.key : key.label] = value;
+  }
+  return example;
+}
+
+/**
+ * A minimal valid value of `type`, as plain JSON and as a ZObject. Returns
+ * null if none can be built, e.g. for types whose instances are references
+ * to a fixed set of objects, or for generic types other than lists, pairs and
+ * maps.
+ */
+export async function buildExample(type: ZType): Promise<TypeExample | null> {
+  const canonical = canonicalize(type);
+  await loadTypeConverters(canonical);
+  const json = exampleFor(canonical, []);
+  if (json === undefined) return null;
+  const zobject = isZObjectValue(json) ? json : convertValueToZObject(json, canonical);
+  return { json, zobject: canonicalize(zobject) };
+}
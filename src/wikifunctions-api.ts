@@ -0,0 +1,368 @@
+import { ZObjectCache } from "./cache.js";
+import { chunk, mapWithConcurrency } from "./concurrency.js";
+import { CacheKind, config } from "./config.js";
+import { apiGet, describeRequestError, WikifunctionsApiError } from "./http-client.js";
+import { canonicalize, isReference, listItems, terminalValue } from "./zobject.js";
+
+// --- Wikifunctions API helpers ---
+
+// The API accepts at most this many pipe-separated IDs or titles per request.
+const MAX_IDS_PER_REQUEST = 50;
+const MAX_CONCURRENT_REQUESTS = 4;
+
+let cache: ZObjectCache | undefined;
+
+/** The shared cache, created with the configured settings on first use. */
+export function zobjectCache(): ZObjectCache {
+  if (!cache) {
+    const created = new ZObjectCache(config.cache);
+    process.once("exit", () => created.flush());
+    cache = created;
+  }
+  return cache;
+}
+
+type ZObjectChangeListener = (zid: string) => void;
+const changeListeners: ZObjectChangeListener[] = [];
+
+/**
+ * Registers a listener for ZObjects that were refetched with a new revision.
+ * Returns a function that removes it again.
+ */
+export function onZObjectChanged(listener: ZObjectChangeListener): () => void {
+  changeListeners.push(listener);
+  return () => {
+    const index = changeListeners.indexOf(listener);
+    if (index !== -1) changeListeners.splice(index, 1);
+  };
+}
+
+function cacheKindOf(zobject: any): CacheKind {
+  switch (zobject?.Z2K2?.Z1K1) {
+    case "Z8":
+      return "function";
+    case "Z4":
+      return "type";
+    case "Z14":
+      return "implementation";
+    default:
+      return "other";
+  }
+}
+
+export interface FunctionSearchPage {
+  results: any[];
+  /** Passed back to get the next page; absent on the last page. */
+  continueFrom?: string;
+}
+
+/** One page of function search results, in the API's relevance order. */
+export async function searchFunctionsPage(
+  searchQuery: string,
+  language: string = config.language,
+  limit = 10,
+  continueFrom?: string
+): Promise<FunctionSearchPage> {
+  const params: Record<string, any> = {
+    action: "query",
+    format: "json",
+    list: "wikilambdasearch_functions",
+    wikilambdasearch_functions_search: searchQuery,
+    wikilambdasearch_functions_language: language,
+    wikilambdasearch_functions_limit: limit,
+  };
+  if (continueFrom !== undefined) {
+    params.wikilambdasearch_functions_continue = continueFrom;
+  }
+
+  const cacheKey = `search:${language}:${limit}:${continueFrom ?? ""}:${searchQuery}`;
+  const cached = zobjectCache().get(cacheKey);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const data = await apiGet(params);
+  const next = data?.continue?.wikilambdasearch_functions_continue;
+  const page: FunctionSearchPage = {
+    results: data?.query?.wikilambdasearch_functions || [],
+    continueFrom: next === undefined || next === null ? undefined : String(next),
+  };
+  zobjectCache().set(cacheKey, page, "search");
+  return page;
+}
+
+export async function findFunctions(
+  searchQuery: string,
+  language: string = config.language
+): Promise<any[] | { error: string }> {
+  try {
+    return (await searchFunctionsPage(searchQuery, language)).results;
+  } catch (error) {
+    const message = `Error searching for functions: ${describeRequestError(error)}`;
+    console.error(message);
+    return { error: message };
+  }
+}
+
+export async function getFunctionDetails(functionId: string): Promise<any | null> {
+  const details = await getMultipleDetails([functionId]);
+  return details[functionId] ?? null;
+}
+
+/** ZIDs of the implementations connected to the function (Z8K4). */
+export function getImplementations(functionData: any): string[] {
+  return listItems(functionData?.Z2K2?.Z8K4).map(terminalValue).filter(isReference);
+}
+
+// Bounds the pages fetched for functions with very many implementations.
+const MAX_IMPLEMENTATION_PAGES = 10;
+
+/**
+ * ZIDs of every implementation (Z14) of the function, including those that
+ * are not connected to it in Z8K4.
+ */
+export async function findAllImplementations(functionId: string): Promise<string[]> {
+  const cacheKey = `implementations:${functionId}`;
+  const cached = zobjectCache().get(cacheKey);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const zids: string[] = [];
+  let continueFrom: string | undefined;
+  for (let page = 0; page < MAX_IMPLEMENTATION_PAGES; page++) {
+    const params: Record<string, any> = {
+      action: "query",
+      format: "json",
+      list: "wikilambdafn_search",
+      wikilambdafn_zfunction_id: functionId,
+      wikilambdafn_type: "Z14",
+      wikilambdafn_limit: 50,
+    };
+    if (continueFrom !== undefined) {
+      params.wikilambdafn_continue = continueFrom;
+    }
+    const data = await apiGet(params);
+    for (const item of data?.query?.wikilambdafn_search || []) {
+      const zid = item?.zid ?? item?.page_title;
+      if (typeof zid === "string" && !zids.includes(zid)) zids.push(zid);
+    }
+    const next = data?.continue?.wikilambdafn_continue;
+    if (next === undefined || next === null) break;
+    continueFrom = String(next);
+  }
+
+  zobjectCache().set(cacheKey, zids, "search");
+  return zids;
+}
+
+export async function getCode(implementationId: string): Promise<string | null> {
+  const implementationData = await getFunctionDetails(implementationId);
+  return extractCode(implementationData)?.code ?? null;
+}
+
+const PROGRAMMING_LANGUAGES: Record<string, string> = {
+  Z600: "javascript",
+  Z610: "python",
+};
+
+/** Reads the Z16 code of a Z14 implementation; null for compositions and built-ins. */
+export function extractCode(implementationData: any): { code: string; language: string } | null {
+  const codeObject = implementationData?.Z2K2?.Z14K3;
+  const code = terminalValue(codeObject?.Z16K2);
+  if (typeof code !== "string" || !code) {
+    return null;
+  }
+  return { code, language: programmingLanguageOf(codeObject) };
+}
+
+/** The programming language (Z16K1) of a Z16 code object, e.g. "javascript". */
+export function programmingLanguageOf(codeObject: any): string {
+  const language = terminalValue(codeObject?.Z16K1);
+  if (typeof language === "string") return PROGRAMMING_LANGUAGES[language] ?? language;
+  const name = terminalValue(language?.Z61K1);
+  return typeof name === "string" ? name : "unknown";
+}
+
+/** Runs a batched lookup in chunks the API accepts and merges the results. */
+async function fetchInChunks<T>(
+  zids: string[],
+  fetchChunk: (zids: string[]) => Promise<Record<string, T>>
+): Promise<Record<string, T>> {
+  const results = await mapWithConcurrency(
+    chunk(zids, MAX_IDS_PER_REQUEST),
+    MAX_CONCURRENT_REQUESTS,
+    fetchChunk
+  );
+  return Object.assign({}, ...results);
+}
+
+// Latest revision IDs of the given pages, used to revalidate expired cache entries.
+function fetchRevisions(zids: string[]): Promise<Record<string, number>> {
+  return fetchInChunks(zids, fetchRevisionsChunk);
+}
+
+async function fetchRevisionsChunk(zids: string[]): Promise<Record<string, number>> {
+  const params = {
+    action: "query",
+    format: "json",
+    formatversion: 2,
+    prop: "info",
+    titles: zids.join("|"),
+  };
+
+  try {
+    const data = await apiGet(params);
+    const revisions: Record<string, number> = {};
+    for (const page of data?.query?.pages || []) {
+      if (page && typeof page.title === "string" && typeof page.lastrevid === "number") {
+        revisions[page.title] = page.lastrevid;
+      }
+    }
+    return revisions;
+  } catch (error) {
+    // Without revisions the objects are simply fetched again.
+    console.error(`Error fetching revisions: ${describeRequestError(error)}`);
+    return {};
+  }
+}
+
+/**
+ * Fetches ZObjects in canonical form, from the cache where possible. The
+ * results are copies, so callers may change them without touching the cache.
+ */
+export async function getMultipleDetails(zids: string[]): Promise<Record<string, any>> {
+  if (!zids || zids.length === 0) {
+    return {};
+  }
+
+  const results: Record<string, any> = {};
+  const missing: string[] = [];
+  const expired: string[] = [];
+  for (const zid of new Set(zids)) {
+    const cached = zobjectCache().get(zid);
+    if (cached !== undefined) {
+      results[zid] = cached;
+    } else if (zobjectCache().peek(zid) !== undefined) {
+      expired.push(zid);
+    } else {
+      missing.push(zid);
+    }
+  }
+
+  // Revisions are only looked up for expired entries: unchanged ones are kept,
+  // and the others are fetched again. New entries take their revision from the
+  // fetch response, so a cold lookup costs a single request.
+  let revisions: Record<string, number> = {};
+  if (expired.length > 0) {
+    revisions = await fetchRevisions(expired);
+    for (const zid of expired) {
+      if (revisions[zid] !== undefined && revisions[zid] === zobjectCache().peek(zid)?.revision) {
+        results[zid] = zobjectCache().revalidate(zid);
+      } else {
+        missing.push(zid);
+      }
+    }
+  }
+
+  if (missing.length > 0) {
+    const fetched = await fetchUncachedDetails(missing);
+    for (const [zid, { value, revision: fetchedRevision }] of Object.entries(fetched)) {
+      const revision = revisions[zid] ?? fetchedRevision;
+      const previous = zobjectCache().peek(zid);
+      zobjectCache().set(zid, value, cacheKindOf(value), revision);
+      results[zid] = value;
+      // Without both revisions, a change shows in the object itself.
+      const changed =
+        previous?.revision !== undefined && revision !== undefined
+          ? previous.revision !== revision
+          : previous !== undefined && JSON.stringify(previous.value) !== JSON.stringify(value);
+      if (changed) {
+        changeListeners.forEach((listener) => listener(zid));
+      }
+    }
+  }
+
+  return structuredClone(results);
+}
+
+interface FetchedZObject {
+  value: any;
+  /** The revision the object was read from, if the API reported it. */
+  revision?: number;
+}
+
+function fetchUncachedDetails(zids: string[]): Promise<Record<string, FetchedZObject>> {
+  return fetchInChunks(zids, fetchDetailsChunk);
+}
+
+async function fetchDetailsChunk(zids: string[]): Promise<Record<string, FetchedZObject>> {
+  const zidString = zids.join("|");
+  const params = {
+    action: "wikilambda_fetch",
+    format: "json",
+    zids: zidString,
+  } as const;
+
+  try {
+    const data = (await apiGet(params)) || {};
+    const results: Record<string, FetchedZObject> = {};
+    for (const zid of zids) {
+      const raw = data?.[zid]?.wikilambda_fetch;
+      if (raw) {
+        try {
+          // Stored in canonical form, whichever form the API used.
+          const lastrevid = data[zid].lastrevid;
+          results[zid] = {
+            value: canonicalize(JSON.parse(raw)),
+            revision: typeof lastrevid === "number" ? lastrevid : undefined,
+          };
+        } catch {
+          // ignore parse errors for individual entries
+        }
+      }
+    }
+    return results;
+  } catch (error) {
+    // The API rejects the whole batch if it contains an unknown ZID, so the
+    // halves are fetched separately until only those are left; they are
+    // reported as not found. Other failures are passed on.
+    if (!(error instanceof WikifunctionsApiError)) {
+      throw error;
+    }
+    if (zids.length === 1) {
+      console.error(`Error fetching ${zids[0]}: ${describeRequestError(error)}`);
+      return {};
+    }
+    const middle = Math.ceil(zids.length / 2);
+    const halves = await Promise.all([fetchDetailsChunk(zids.slice(0, middle)), fetchDetailsChunk(zids.slice(middle))]);
+    return Object.assign({}, ...halves);
+  }
+}
+
+export async function runWikifunctionCall(functionCall: any | string): Promise<{ raw: any; extracted?: any }> {
+  const functionCallJson =
+    typeof functionCall === "string" ? functionCall : JSON.stringify(functionCall);
+
+  const params = {
+    action: "wikifunctions_run",
+    format: "json",
+    formatversion: 2,
+    function_call: functionCallJson,
+  } as const;
+
+  // Runs get their own timeout, and one that timed out is not repeated.
+  const raw = await apiGet(params, { timeoutSeconds: config.http.runTimeoutSeconds, retryTimeouts: false });
+  const inner = raw?.wikifunctions_run?.data;
+  if (typeof inner === "string") {
+    try {
+      const parsed = JSON.parse(inner);
+      const extracted = parsed?.Z22K1?.Z13518K1 ?? parsed?.Z22K1 ?? parsed;
+      return { raw: parsed, extracted };
+    } catch {
+      // Not JSON, return raw
+      return { raw };
+    }
+  }
+  return { raw };
+}
@@ -0,0 +1,190 @@
+// --- ZObject forms ---
+//
+// The API may return ZObjects in canonical form, where references are bare
+// ZID strings ("Z1002"), other strings are bare strings and typed lists are
+// benjamin arrays whose first element is the item type, or in normal form,
+// where every terminal is an explicit Z6 or Z9 object and typed lists are
+// linked K1 (head) / K2 (tail) cells. A string that looks like a ZID but is
+// meant as a string stays a Z6 object in canonical form, so that converting
+// between the two forms never loses information.
+
+const REFERENCE_PATTERN = /^Z[1-9]\d*$/;
+const TYPED_LIST = "Z881";
+
+/** True for a bare ZID such as "Z801", which canonical form reads as a reference. */
+export function isReference(value: unknown): value is string {
+  return typeof value === "string" && REFERENCE_PATTERN.test(value);
+}
+
+/** The string inside a Z6 or Z9 in either form; any other value is returned unchanged. */
+export function terminalValue(value: any): any {
+  while (value && typeof value === "object" && !Array.isArray(value)) {
+    if (value.Z1K1 === "Z6" && "Z6K1" in value) value = value.Z6K1;
+    else if (value.Z1K1 === "Z9" && "Z9K1" in value) value = value.Z9K1;
+    else break;
+  }
+  return value;
+}
+
+/** The item type if `type` (in canonical form) is a typed list type, e.g. Z881(Z6). */
+function typedListItemType(type: any): any {
+  if (type && typeof type === "object" && type.Z1K1 === "Z7" && type.Z7K1 === TYPED_LIST) {
+    return type[`${TYPED_LIST}K1`] ?? "Z1";
+  }
+  return undefined;
+}
+
+/** Converts a ZObject in either form to canonical form. */
+export function canonicalize(zobject: any): any {
+  if (Array.isArray(zobject)) return zobject.map(canonicalize);
+  if (!zobject || typeof zobject !== "object") return zobject;
+
+  if (zobject.Z1K1 === "Z9" && typeof zobject.Z9K1 === "string") {
+    return zobject.Z9K1;
+  }
+  if (zobject.Z1K1 === "Z6" && typeof zobject.Z6K1 === "string") {
+    return isReference(zobject.Z6K1) ? { Z1K1: "Z6", Z6K1: zobject.Z6K1 } : zobject.Z6K1;
+  }
+
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(zobject)) {
+    result[key] = canonicalize(value);
+  }
+
+  // A normal-form list cell; its tail has already become a benjamin array.
+  const itemType = typedListItemType(result.Z1K1);
+  const keys = Object.keys(result);
+  if (itemType !== undefined && keys.every((key) => key === "Z1K1" || key === "K1" || key === "K2")) {
+    if (!("K1" in result)) return [itemType];
+    const tail = Array.isArray(result.K2) ? result.K2.slice(1) : [];
+    return [itemType, result.K1, ...tail];
+  }
+  return result;
+}
+
+/** Converts a ZObject in either form to normal form. */
+export function normalize(zobject: any): any {
+  if (typeof zobject === "string") {
+    return isReference(zobject) ? { Z1K1: "Z9", Z9K1: zobject } : { Z1K1: "Z6", Z6K1: zobject };
+  }
+  if (Array.isArray(zobject)) {
+    const [itemType = "Z1", ...items] = zobject;
+    const listType = normalize({ Z1K1: "Z7", Z7K1: TYPED_LIST, [`${TYPED_LIST}K1`]: canonicalize(itemType) });
+    let list: Record<string, any> = { Z1K1: listType };
+    for (let i = items.length - 1; i >= 0; i--) {
+      list = { Z1K1: listType, K1: normalize(items[i]), K2: list };
+    }
+    return list;
+  }
+  if (!zobject || typeof zobject !== "object") return zobject;
+
+  if (zobject.Z1K1 === "Z9" || zobject.Z1K1 === "Z6") {
+    const key = `${zobject.Z1K1}K1`;
+    return { Z1K1: zobject.Z1K1, [key]: terminalValue(zobject[key]) };
+  }
+
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(zobject)) {
+    result[key] = normalize(value);
+  }
+  return result;
+}
+
+/** The items of a typed list in either form; [] for anything that is not a list. */
+export function listItems(list: any): any[] {
+  const canonical = canonicalize(list);
+  return Array.isArray(canonical) ? canonical.slice(1) : [];
+}
+
+// --- Pretty printing ---
+
+export interface ZObjectLabels {
+  /** Labels of ZIDs, e.g. Z1002 → "English". */
+  zids: Record<string, string>;
+  /** Labels of keys, e.g. Z11K1 → "language". */
+  keys: Record<string, string>;
+}
+
+const INDENT = "  ";
+
+function annotate(id: string, label: string | undefined): string {
+  return label && label !== id ? `${id} (${label})` : id;
+}
+
+function callArguments(call: Record<string, any>): any[] {
+  return Object.keys(call)
+    .filter((key) => key !== "Z1K1" && key !== "Z7K1")
+    .map((key) => call[key]);
+}
+
+/** Calls whose arguments are all ZIDs, such as generic types, print as e.g. "Z881(Z6)". */
+function isCompactCall(node: any): boolean {
+  if (isReference(node)) return true;
+  return (
+    !!node && typeof node === "object" && node.Z1K1 === "Z7" && isReference(node.Z7K1) && callArguments(node).every(isCompactCall)
+  );
+}
+
+function compactCall(node: any): string {
+  if (typeof node === "string") return node;
+  return `${node.Z7K1}(${callArguments(node).map(compactCall).join(",")})`;
+}
+
+function printNode(node: any, labels: ZObjectLabels, indent: string): string {
+  if (typeof node === "string") {
+    return isReference(node) ? annotate(node, labels.zids[node]) : JSON.stringify(node);
+  }
+  if (Array.isArray(node)) {
+    const [itemType, ...items] = node;
+    const head = `[${printNode(itemType, labels, indent)}]`;
+    if (items.length === 0) return `${head} (empty)`;
+    const lines = items.map((item) => `${indent}${INDENT}- ${printNode(item, labels, indent + INDENT + INDENT)}`);
+    return [head, ...lines].join("\n");
+  }
+  if (!node || typeof node !== "object") {
+    return JSON.stringify(node);
+  }
+  // A string that only looks like a ZID.
+  if (node.Z1K1 === "Z6" && typeof node.Z6K1 === "string") {
+    return JSON.stringify(node.Z6K1);
+  }
+  if (isCompactCall(node)) {
+    return compactCall(node);
+  }
+
+  const type = node.Z1K1;
+  const head =
+    typeof type === "string" ? annotate(type, labels.zids[type]) : printNode(type, labels, indent);
+  const lines = Object.keys(node)
+    .filter((key) => key !== "Z1K1")
+    .map((key) => `${indent}${INDENT}${annotate(key, labels.keys[key])}: ${printNode(node[key], labels, indent + INDENT)}`);
+  return [head, ...lines].join("\n");
+}
+
+/**
+ * Renders a ZObject as an indented outline in which keys and ZIDs are
+ * followed by their labels, e.g. `Z11K1 (language): Z1002 (English)`.
+ */
+export function prettyPrint(zobject: any, labels: ZObjectLabels = { zids: {}, keys: {} }): string {
+  return printNode(canonicalize(zobject), labels, "");
+}
+
+/** The ZIDs and keys `prettyPrint` would annotate. */
+export function collectZObjectIds(zobject: any): { zids: string[]; keys: string[] } {
+  const zids = new Set<string>();
+  const keys = new Set<string>();
+  const visit = (node: any) => {
+    if (isReference(node)) {
+      zids.add(node);
+    } else if (Array.isArray(node)) {
+      node.forEach(visit);
+    } else if (node && typeof node === "object" && node.Z1K1 !== "Z6") {
+      for (const [key, value] of Object.entries(node)) {
+        if (/^Z[1-9]\d*K[1-9]\d*$/.test(key)) keys.add(key);
+        visit(value);
+      }
+    }
+  };
+  visit(canonicalize(zobject));
+  return { zids: [...zids], keys: [...keys] };
+}
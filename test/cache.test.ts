@@ -0,0 +1,111 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ZObjectCache } from "../src/cache.js";
+import { CacheConfig } from "../src/config.js";
+
+const ttlSeconds = { function: 60, type: 60, implementation: 60, search: 10, other: 60 };
+const options = (overrides: Partial<CacheConfig> = {}): CacheConfig => ({ maxEntries: 3, ttlSeconds, ...overrides });
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("ZObjectCache", () => {
+  it("evicts the least recently used entry", () => {
+    const cache = new ZObjectCache(options());
+    cache.set("Z1", 1, "other");
+    cache.set("Z2", 2, "other");
+    cache.set("Z3", 3, "other");
+    cache.get("Z1");
+    cache.set("Z4", 4, "other");
+
+    expect(cache.peek("Z2")).toBeUndefined();
+    expect(["Z1", "Z3", "Z4"].map((key) => cache.get(key))).toEqual([1, 3, 4]);
+  });
+
+  it("expires entries after the TTL of their kind", () => {
+    const cache = new ZObjectCache(options());
+    cache.set("Z801", "function", "function");
+    cache.set("search:add", ["Z801"], "search");
+
+    vi.advanceTimersByTime(10_000);
+    expect(cache.get("search:add")).toBeUndefined();
+    expect(cache.get("Z801")).toBe("function");
+
+    vi.advanceTimersByTime(50_000);
+    expect(cache.get("Z801")).toBeUndefined();
+    expect(cache.peek("Z801")?.value).toBe("function");
+    expect(cache.status()).toEqual(expect.objectContaining({ hits: 1, misses: 2 }));
+  });
+
+  it("revalidates expired entries for another TTL", () => {
+    const cache = new ZObjectCache(options());
+    cache.set("Z801", "function", "function", 42);
+    vi.advanceTimersByTime(61_000);
+
+    expect(cache.revalidate("Z801")).toBe("function");
+    expect(cache.get("Z801")).toBe("function");
+    expect(cache.peek("Z801")?.revision).toBe(42);
+    expect(cache.status().revalidated).toBe(1);
+  });
+
+  it("clears entries by kind and key", () => {
+    const cache = new ZObjectCache(options());
+    cache.set("Z801", 1, "function");
+    cache.set("Z802", 2, "function");
+    cache.set("Z4", 3, "type");
+
+    expect(cache.clear({ kind: "function", keys: ["Z801", "Z4"] })).toBe(1);
+    expect(cache.status().byKind).toEqual(expect.objectContaining({ function: 1, type: 1 }));
+    expect(cache.clear()).toBe(2);
+  });
+
+  describe("with a cache file", () => {
+    let file: string;
+
+    beforeEach(() => {
+      file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "wikifunctions-cache-")), "cache.json");
+    });
+
+    afterEach(() => {
+      fs.rmSync(path.dirname(file), { recursive: true, force: true });
+    });
+
+    it("keeps entries across instances", () => {
+      const cache = new ZObjectCache(options({ file }));
+      cache.set("Z801", { Z1K1: "Z2" }, "function", 7);
+      cache.flush();
+
+      const reloaded = new ZObjectCache(options({ file }));
+      expect(reloaded.get("Z801")).toEqual({ Z1K1: "Z2" });
+      expect(reloaded.peek("Z801")?.revision).toBe(7);
+    });
+
+    it("writes changes after a delay", () => {
+      const cache = new ZObjectCache(options({ file }));
+      cache.set("Z801", 1, "function");
+      expect(fs.existsSync(file)).toBe(false);
+
+      vi.advanceTimersByTime(1000);
+      // The timer starts an asynchronous write; flushing writes the same content.
+      cache.flush();
+      expect(JSON.parse(fs.readFileSync(file, "utf8")).entries.Z801.value).toBe(1);
+    });
+
+    it("ignores an unreadable file", () => {
+      fs.writeFileSync(file, "{not json");
+      const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const cache = new ZObjectCache(options({ file }));
+      expect(cache.status().entries).toBe(0);
+      expect(error).toHaveBeenCalledWith(expect.stringMatching(/Ignoring unreadable cache file/));
+      error.mockRestore();
+    });
+  });
+});
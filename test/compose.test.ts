@@ -0,0 +1,133 @@
+import { describe, expect, it, vi } from "vitest";
+
+const label = (text: string) => ({ Z1K1: "Z12", Z12K1: ["Z11", { Z1K1: "Z11", Z11K1: "Z1002", Z11K2: text }] });
+const typeObject = (zid: string, name: string) => ({
+  Z1K1: "Z2",
+  Z2K1: { Z1K1: "Z6", Z6K1: zid },
+  Z2K2: { Z1K1: "Z4", Z4K1: zid, Z4K2: ["Z3"] },
+  Z2K3: label(name),
+});
+const functionObject = (zid: string, name: string, inputs: [string, any][], output: any) => ({
+  Z1K1: "Z2",
+  Z2K1: { Z1K1: "Z6", Z6K1: zid },
+  Z2K2: {
+    Z1K1: "Z8",
+    Z8K1: [
+      "Z17",
+      ...inputs.map(([argName, type], index) => ({
+        Z1K1: "Z17",
+        Z17K1: type,
+        Z17K2: `${zid}K${index + 1}`,
+        Z17K3: label(argName),
+      })),
+    ],
+    Z8K2: output,
+    Z8K3: ["Z20"],
+    Z8K4: ["Z14"],
+    Z8K5: zid,
+  },
+  Z2K3: label(name),
+});
+
+const objects: Record<string, any> = {
+  Z1002: { Z1K1: "Z2", Z2K1: { Z1K1: "Z6", Z6K1: "Z1002" }, Z2K2: { Z1K1: "Z60", Z60K1: "en" }, Z2K3: label("English") },
+  Z6: typeObject("Z6", "String"),
+  Z40: typeObject("Z40", "Boolean"),
+  Z16683: typeObject("Z16683", "Integer"),
+  Z990020: functionObject("Z990020", "join", [["first", "Z6"], ["second", "Z6"]], "Z6"),
+  Z990021: functionObject("Z990021", "length", [["text", "Z6"]], "Z16683"),
+  Z990022: functionObject("Z990022", "repeat", [["text", "Z6"], ["times", "Z16683"]], "Z6"),
+  Z990023: functionObject("Z990023", "is empty", [["text", "Z6"]], "Z40"),
+  Z990024: functionObject("Z990024", "identity", [["value", "Z1"]], "Z1"),
+};
+
+vi.mock("../src/wikifunctions-api.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/wikifunctions-api.js")>()),
+  getMultipleDetails: vi.fn(async (zids: string[]) =>
+    Object.fromEntries(zids.filter((zid) => objects[zid]).map((zid) => [zid, objects[zid]]))
+  ),
+}));
+
+const { composeCall, parseCallExpression } = await import("../src/compose.js");
+
+describe("parseCallExpression", () => {
+  it("parses nested calls, references and literals", () => {
+    const expression = ' Z10012( Z10000("a, \\"b\\")", "def"), -3.5e2, Z41, [1, true, null], {"n": "x"} ) ';
+    expect(parseCallExpression(expression)).toEqual({
+      function: "Z10012",
+      args: [
+        { function: "Z10000", args: ['a, "b")', "def"] },
+        -350,
+        "Z41",
+        [1, true, null],
+        { n: "x" },
+      ],
+    });
+    expect(parseCallExpression("Z801()")).toEqual({ function: "Z801", args: [] });
+  });
+
+  it("reports where the expression goes wrong", () => {
+    expect(() => parseCallExpression('Z801("a" "b")')).toThrow("Expected ',' or ')' at position 10 of the expression.");
+    expect(() => parseCallExpression('Z801("a"')).toThrow(/Expected ',' or '\)' at position 9/);
+    expect(() => parseCallExpression("Z801(abc)")).toThrow(/Unexpected input at position 6/);
+    expect(() => parseCallExpression("Z801(1) 2")).toThrow(/Unexpected trailing input/);
+    expect(() => parseCallExpression("Z801([Z802(1)])")).toThrow(/Function calls are not allowed inside list/);
+    expect(() => parseCallExpression("Z801({a: 1})")).toThrow(/Expected a quoted key/);
+  });
+
+  it("requires a function call at the top", () => {
+    expect(() => parseCallExpression('"text"')).toThrow(/must be a function call/);
+    expect(() => parseCallExpression("Z801")).toThrow(/must be a function call/);
+  });
+});
+
+describe("composeCall", () => {
+  it("nests the inner calls as arguments", async () => {
+    const composed = await composeCall(parseCallExpression('Z990022(Z990020("a", "b"), Z990021("abc"))'));
+    expect(composed.outputType).toBe("Z6");
+    expect(composed.call).toEqual({
+      Z1K1: "Z7",
+      Z7K1: "Z990022",
+      Z990022K1: {
+        Z1K1: "Z7",
+        Z7K1: "Z990020",
+        Z990020K1: { Z1K1: "Z6", Z6K1: "a" },
+        Z990020K2: { Z1K1: "Z6", Z6K1: "b" },
+      },
+      Z990022K2: { Z1K1: "Z7", Z7K1: "Z990021", Z990021K1: { Z1K1: "Z6", Z6K1: "abc" } },
+    });
+  });
+
+  it("accepts arguments by name", async () => {
+    const composed = await composeCall({
+      function: "Z990022",
+      args: { times: 2, text: { function: "Z990020", args: ["a", "b"] } },
+    });
+    expect(composed.call.Z990022K1.Z7K1).toBe("Z990020");
+  });
+
+  it("reports every inner call whose output type does not match its argument", async () => {
+    const error = await composeCall(
+      parseCallExpression('Z990022(Z990021("abc"), Z990023(Z990020("a", Z990021("b"))))')
+    ).catch((error) => error);
+    expect(error.message.split("\n")).toEqual([
+      "The composition is not valid:",
+      "- Z990022 → Z990022K1: Z990021 (length) returns Z16683, but 'text' of Z990022 expects Z6 (String).",
+      "- Z990022 → Z990022K2 → Z990023K1 → Z990020K2: Z990021 (length) returns Z16683, but 'second' of Z990020 expects Z6 (String).",
+      "- Z990022 → Z990022K2: Z990023 (is empty) returns Z40, but 'times' of Z990022 expects Z16683 (Integer).",
+    ]);
+  });
+
+  it("lets Z1 stand for any type", async () => {
+    const composed = await composeCall(parseCallExpression('Z990021(Z990024(Z990020("a", "b")))'));
+    expect(composed.outputType).toBe("Z16683");
+  });
+
+  it("reports wrong argument counts and unknown functions", async () => {
+    await expect(composeCall(parseCallExpression('Z990021("a", "b")'))).rejects.toThrow(
+      /Z990021 \(length\) takes 1 argument\(s\), got 2/
+    );
+    await expect(composeCall(parseCallExpression("Z990099(1)"))).rejects.toThrow("Function Z990099 was not found.");
+    await expect(composeCall(parseCallExpression('Z6("a")'))).rejects.toThrow("Z6 is not a function.");
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from "vitest";
+
+const label = (text: string) => ({ Z1K1: "Z12", Z12K1: ["Z11", { Z1K1: "Z11", Z11K1: "Z1002", Z11K2: text }] });
+const persistent = (zid: string, name: string, value: any) => ({
+  Z1K1: "Z2",
+  Z2K1: { Z1K1: "Z6", Z6K1: zid },
+  Z2K2: value,
+  Z2K3: label(name),
+});
+const functionObject = (zid: string, implementations: string[]) =>
+  persistent(zid, `f${zid}`, {
+    Z1K1: "Z8",
+    Z8K1: ["Z17"],
+    Z8K2: "Z6",
+    Z8K3: ["Z20"],
+    Z8K4: ["Z14", ...implementations],
+    Z8K5: zid,
+  });
+/** A composition that calls `callees` nested inside one another. */
+const composition = (zid: string, functionZid: string, callees: string[]) => {
+  let body: any = "Z41";
+  for (const callee of [...callees].reverse()) body = { Z1K1: "Z7", Z7K1: callee, [`${callee}K1`]: body };
+  return persistent(zid, `composition ${zid}`, { Z1K1: "Z14", Z14K1: functionZid, Z14K2: body });
+};
+const code = (zid: string, functionZid: string) =>
+  persistent(zid, `code ${zid}`, { Z1K1: "Z14", Z14K1: functionZid, Z14K3: { Z1K1: "Z16", Z16K1: "Z600", Z16K2: "" } });
+
+const objects: Record<string, any> = {
+  Z1002: { Z1K1: "Z2", Z2K1: { Z1K1: "Z6", Z6K1: "Z1002" }, Z2K2: { Z1K1: "Z60", Z60K1: "en" }, Z2K3: label("English") },
+  Z990001: persistent("Z990001", "not a function", { Z1K1: "Z6", Z6K1: "text" }),
+};
+const add = (...items: any[]) => items.forEach((item) => (objects[item.Z2K1.Z6K1] = item));
+
+// Z990101 → Z990102 → Z990101 (a cycle), Z990102 → Z990103 (code), Z990104 (missing) and Z990001.
+add(
+  functionObject("Z990101", ["Z990201"]),
+  composition("Z990201", "Z990101", ["Z990102", "Z990103"]),
+  functionObject("Z990102", ["Z990202"]),
+  composition("Z990202", "Z990102", ["Z990101", "Z990103", "Z990104", "Z990001"]),
+  functionObject("Z990103", ["Z990203", "Z990299"]),
+  code("Z990203", "Z990103")
+);
+// A chain: Z990111 → Z990112 → Z990113 → Z990114.
+for (let i = 1; i <= 4; i++) {
+  add(functionObject(`Z99011${i}`, i < 4 ? [`Z99021${i}`] : []));
+  if (i < 4) add(composition(`Z99021${i}`, `Z99011${i}`, [`Z99011${i + 1}`]));
+}
+// Z990300 calls 250 functions.
+const many = Array.from({ length: 250 }, (_, i) => `Z99${1000 + i}`);
+add(functionObject("Z990300", ["Z990400"]), composition("Z990400", "Z990300", many));
+many.forEach((zid) => add(functionObject(zid, [])));
+
+vi.mock("../src/wikifunctions-api.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/wikifunctions-api.js")>()),
+  getMultipleDetails: vi.fn(async (zids: string[]) =>
+    Object.fromEntries(zids.filter((zid) => objects[zid]).map((zid) => [zid, objects[zid]]))
+  ),
+}));
+
+const { buildDependencyGraph, formatDependencyTree } = await import("../src/dependencies.js");
+
+describe("buildDependencyGraph", () => {
+  it("finds the functions called by compositions and marks cycles", async () => {
+    const graph = await buildDependencyGraph("Z990101", 3, "en");
+    expect(graph.functions.map((node) => [node.zid, node.depth, node.status])).toEqual([
+      ["Z990101", 0, "expanded"],
+      ["Z990102", 1, "expanded"],
+      ["Z990103", 1, "expanded"],
+      ["Z990104", 2, "not_found"],
+      ["Z990001", 2, "not_function"],
+    ]);
+    expect(graph.functions[2].implementations).toEqual([
+      expect.objectContaining({ zid: "Z990203", kind: "code", programmingLanguage: "javascript", label: "code Z990203" }),
+    ]);
+    expect(graph.warnings).toEqual(["Implementation Z990299 of Z990103 could not be fetched."]);
+
+    expect(graph.cycles).toEqual([["Z990101", "Z990102", "Z990101"]]);
+    expect(graph.edges.filter((edge) => edge.cycle)).toEqual([
+      { from: "Z990102", to: "Z990101", implementation: "Z990202", cycle: true },
+    ]);
+    // Z990103 is reached twice, without a cycle.
+    expect(graph.edges.filter((edge) => edge.to === "Z990103").every((edge) => !edge.cycle)).toBe(true);
+
+    expect(formatDependencyTree(graph).split("\n")).toEqual([
+      "- Z990101 (fZ990101): composition",
+      "  - Z990102 (fZ990102): composition",
+      "    - Z990101 (fZ990101) ↻ cycle",
+      "    - Z990103 (fZ990103): code (javascript)",
+      "    - Z990104: not found",
+      "    - Z990001 (not a function): not a function",
+      "  - Z990103 (fZ990103) (see above)",
+    ]);
+  });
+
+  it("stops following calls at the depth limit", async () => {
+    const graph = await buildDependencyGraph("Z990111", 1, "en");
+    expect(graph.functions.map((node) => [node.zid, node.status])).toEqual([
+      ["Z990111", "expanded"],
+      ["Z990112", "depth_limit"],
+    ]);
+    expect(graph.edges.map((edge) => [edge.from, edge.to])).toEqual([["Z990111", "Z990112"]]);
+
+    const deeper = await buildDependencyGraph("Z990111", 5, "en");
+    expect(deeper.functions.map((node) => node.status)).toEqual(["expanded", "expanded", "expanded", "expanded"]);
+  });
+
+  it("stops after 200 functions", async () => {
+    const graph = await buildDependencyGraph("Z990300", 3, "en");
+    expect(graph.functions).toHaveLength(200);
+    expect(graph.functions[0].status).toBe("depth_limit");
+    expect(graph.warnings).toEqual(["Stopped after 200 functions; some calls were not followed."]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from "vitest";
+import type { RunRecord } from "../src/history.js";
+
+vi.mock("../src/wikifunctions-api.js", () => ({
+  getMultipleDetails: vi.fn(async (zids: string[]) =>
+    Object.fromEntries(
+      zids.filter((zid) => zid === "Z1430").map((zid) => [zid, { Z1K1: "Z2", Z2K2: { Z1K1: "Z60", Z60K1: "de" } }])
+    )
+  ),
+}));
+
+const { initConfig } = await import("../src/config.js");
+const { RunHistory, runAsTester, sameOutcome } = await import("../src/history.js");
+const { loadLanguages } = await import("../src/languages.js");
+
+initConfig([], {});
+
+const call = {
+  Z1K1: "Z7",
+  Z7K1: "Z10000",
+  Z10000K1: { Z1K1: "Z6", Z6K1: "a" },
+  Z10000K2: { Z1K1: "Z6", Z6K1: "b" },
+};
+
+function record(overrides: Partial<RunRecord> = {}): RunRecord {
+  return new RunHistory({ maxEntries: 10 }).add({
+    functionZid: "Z10000",
+    functionName: "join",
+    template: {},
+    values: { first: "a", second: "b" },
+    call,
+    success: true,
+    value: "ab",
+    rawValue: "ab",
+    resultType: "Z6",
+    stats: {},
+    ...overrides,
+  } as any);
+}
+
+describe("runAsTester", () => {
+  it("builds a new tester that checks the observed result with String equality", () => {
+    expect(runAsTester(record())).toEqual({
+      Z1K1: "Z2",
+      Z2K1: { Z1K1: "Z6", Z6K1: "Z0" },
+      Z2K2: {
+        Z1K1: "Z20",
+        Z20K1: "Z10000",
+        Z20K2: { Z1K1: "Z7", Z7K1: "Z10000", Z10000K1: "a", Z10000K2: "b" },
+        Z20K3: { Z1K1: "Z7", Z7K1: "Z866", Z866K2: "ab" },
+      },
+      Z2K3: { Z1K1: "Z12", Z12K1: ["Z11", { Z1K1: "Z11", Z11K1: "Z1002", Z11K2: 'join[Z10000]("a", "b") → "ab"' }] },
+      Z2K4: { Z1K1: "Z32", Z32K1: ["Z31"] },
+      Z2K5: { Z1K1: "Z12", Z12K1: ["Z11"] },
+    });
+  });
+
+  it("uses the given validator, label and language", async () => {
+    // Language codes are known once their ZIDs were read.
+    await loadLanguages(["Z1430"]);
+    const rawValue = { Z1K1: "Z16683", Z16683K1: { Z1K1: "Z16659", Z16659K1: "Z16660" }, Z16683K2: "2" };
+    const tester = runAsTester(record({ rawValue, resultType: "Z16683" }), {
+      validator: "Z16688",
+      label: "zwei",
+      language: "de",
+    });
+    expect(tester.Z2K2.Z20K3).toEqual({ Z1K1: "Z7", Z7K1: "Z16688", Z16688K2: rawValue });
+    expect(tester.Z2K3.Z12K1[1]).toEqual({ Z1K1: "Z11", Z11K1: "Z1430", Z11K2: "zwei" });
+  });
+
+  it("refuses runs it cannot test with the validator", () => {
+    expect(() => runAsTester(record({ rawValue: { Z1K1: "Z40", Z40K1: "Z41" }, resultType: "Z40" }))).toThrow(
+      /returned a Z40, but Z866 only compares Strings/
+    );
+    expect(() => runAsTester(record(), { validator: "equals" })).toThrow(/'equals' is not a ZID/);
+    expect(() => runAsTester(record({ success: false, rawValue: undefined }))).toThrow(
+      /failed, so there is no observed result/
+    );
+  });
+});
+
+describe("sameOutcome", () => {
+  const failure = (type: string) => record({ success: false, rawValue: undefined, error: { type } as any });
+
+  it("compares results, or the types of errors", () => {
+    expect(sameOutcome(record(), record({ value: "other", stats: { durationMs: 5 } as any }))).toBe(true);
+    expect(sameOutcome(record(), record({ rawValue: "ba" }))).toBe(false);
+    expect(sameOutcome(failure("Z507"), failure("Z507"))).toBe(true);
+    expect(sameOutcome(failure("Z507"), failure("Z504"))).toBe(false);
+    expect(sameOutcome(record(), failure("Z507"))).toBe(false);
+  });
+});
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const get = vi.fn();
+
+vi.mock("axios", () => ({
+  default: {
+    create: () => ({ get }),
+    isAxiosError: (error: any) => error?.isAxiosError === true,
+  },
+}));
+
+const { initConfig } = await import("../src/config.js");
+const {
+  apiGet,
+  WikifunctionsApiError,
+  WikifunctionsCancelledError,
+  WikifunctionsHttpError,
+  WikifunctionsMaxlagError,
+  WikifunctionsRateLimitError,
+  WikifunctionsTimeoutError,
+} = await import("../src/http-client.js");
+
+const ok = (data: unknown, headers: Record<string, string> = {}) => ({ status: 200, data, headers });
+const httpFailure = (status: number, headers: Record<string, string> = {}) => ({
+  isAxiosError: true,
+  message: `Request failed with status code ${status}`,
+  response: { status, headers, data: "" },
+});
+const maxlag = { error: { code: "maxlag", info: "Waiting for a database server: 7 seconds lagged.", lag: 7 } };
+
+let retryMessages: string[];
+
+beforeEach(() => {
+  // Rate limiting is covered by rate-limit.test.ts.
+  initConfig(["--api-url", "https://wiki.test/w/api.php", "--user-agent", "test-agent", "--rate-limit", "0"], {});
+  get.mockReset();
+  vi.useFakeTimers();
+  retryMessages = [];
+  vi.spyOn(console, "error").mockImplementation((message: string) => {
+    retryMessages.push(message);
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+/** Runs the request to completion, skipping the waits between attempts. */
+async function settle<T>(promise: Promise<T>): Promise<T> {
+  const settled = promise.then(
+    (value) => ({ value }),
+    (error) => ({ error })
+  );
+  await vi.runAllTimersAsync();
+  const result: any = await settled;
+  if ("error" in result) throw result.error;
+  return result.value;
+}
+
+describe("apiGet", () => {
+  it("sends the request to the configured endpoint with maxlag", async () => {
+    get.mockResolvedValueOnce(ok({ query: {} }));
+    expect(await settle(apiGet({ action: "query" }))).toEqual({ query: {} });
+    expect(get).toHaveBeenCalledWith(
+      "",
+      expect.objectContaining({
+        baseURL: "https://wiki.test/w/api.php",
+        headers: { "User-Agent": "test-agent" },
+        params: { maxlag: 5, action: "query" },
+        timeout: 30_000,
+      })
+    );
+  });
+
+  it("retries server errors with exponential backoff", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(1);
+    get
+      .mockRejectedValueOnce(httpFailure(503))
+      .mockRejectedValueOnce(httpFailure(502))
+      .mockResolvedValueOnce(ok({ done: true }));
+
+    expect(await settle(apiGet({}))).toEqual({ done: true });
+    expect(get).toHaveBeenCalledTimes(3);
+    expect(retryMessages).toEqual([
+      expect.stringMatching(/HTTP 503\. Retrying in 0\.5 s \(attempt 2 of 4\)/),
+      expect.stringMatching(/HTTP 502\. Retrying in 1\.0 s \(attempt 3 of 4\)/),
+    ]);
+  });
+
+  it("waits as long as Retry-After says", async () => {
+    get.mockRejectedValueOnce(httpFailure(429, { "retry-after": "7" })).mockResolvedValueOnce(ok({}));
+    await settle(apiGet({}));
+    expect(retryMessages).toEqual([expect.stringMatching(/rate limiting this client\. Retrying in 7\.0 s/)]);
+  });
+
+  it("gives up at once when Retry-After is too long", async () => {
+    get.mockRejectedValueOnce(httpFailure(429, { "retry-after": "600" }));
+    const error = await settle(apiGet({})).catch((error) => error);
+    expect(error).toBeInstanceOf(WikifunctionsRateLimitError);
+    expect(error.hint).toMatch(/Wait 600 s/);
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries maxlag errors and reports the lag when they persist", async () => {
+    get.mockResolvedValue(ok(maxlag));
+    const error = await settle(apiGet({})).catch((error) => error);
+    expect(error).toBeInstanceOf(WikifunctionsMaxlagError);
+    expect(error.lagSeconds).toBe(7);
+    expect(get).toHaveBeenCalledTimes(4);
+  });
+
+  it("does not retry API errors or client errors", async () => {
+    get.mockResolvedValueOnce(ok({ error: { code: "badvalue", info: "Unrecognized value." } }));
+    await expect(settle(apiGet({}))).rejects.toBeInstanceOf(WikifunctionsApiError);
+
+    get.mockRejectedValueOnce(httpFailure(404));
+    await expect(settle(apiGet({}))).rejects.toBeInstanceOf(WikifunctionsHttpError);
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries timeouts only when asked to", async () => {
+    get.mockRejectedValue({ isAxiosError: true, code: "ECONNABORTED", message: "timeout" });
+    await expect(settle(apiGet({}, { retryTimeouts: false, timeoutSeconds: 2 }))).rejects.toEqual(
+      new WikifunctionsTimeoutError(2)
+    );
+    expect(get).toHaveBeenCalledTimes(1);
+
+    await expect(settle(apiGet({}, { maxRetries: 1 }))).rejects.toBeInstanceOf(WikifunctionsTimeoutError);
+    expect(get).toHaveBeenCalledTimes(3);
+  });
+
+  it("stops waiting for a retry when the signal is aborted", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(1);
+    const controller = new AbortController();
+    get.mockRejectedValue(httpFailure(503));
+    const request = apiGet({}, { signal: controller.signal }).catch((error) => error);
+    await vi.advanceTimersByTimeAsync(100);
+    controller.abort();
+
+    expect(await request).toBeInstanceOf(WikifunctionsCancelledError);
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from "vitest";
+
+const language = (zid: string, code: string) => ({
+  Z1K1: "Z2",
+  Z2K1: { Z1K1: "Z6", Z6K1: zid },
+  Z2K2: { Z1K1: "Z60", Z60K1: code },
+});
+
+const objects: Record<string, any> = {
+  Z1430: language("Z1430", "de"),
+  Z1332: language("Z1332", "fr"),
+};
+
+vi.mock("../src/wikifunctions-api.js", () => ({
+  getMultipleDetails: vi.fn(async (zids: string[]) =>
+    Object.fromEntries(zids.filter((zid) => objects[zid]).map((zid) => [zid, objects[zid]]))
+  ),
+}));
+
+const { languageCodeOf, languageZidOf, loadLanguages, resetLanguages } = await import("../src/languages.js");
+
+describe("resetLanguages", () => {
+  it("forgets learned codes, keeping English", async () => {
+    await loadLanguages(["Z1430", "Z1332"]);
+    expect(languageCodeOf("Z1430")).toBe("de");
+
+    resetLanguages(["Z1430"]);
+    expect(languageCodeOf("Z1430")).toBeUndefined();
+    expect(languageZidOf("de")).toBeUndefined();
+    expect(languageZidOf("fr")).toBe("Z1332");
+
+    resetLanguages();
+    expect(languageZidOf("fr")).toBeUndefined();
+    expect(languageZidOf("en")).toBe("Z1002");
+  });
+});
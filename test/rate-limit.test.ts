@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TokenBucket } from "../src/rate-limit.js";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+/** Takes `count` tokens and records when each was granted, in ms from now. */
+function takeAll(bucket: TokenBucket, count: number): Promise<number[]> {
+  const start = Date.now();
+  return Promise.all(Array.from({ length: count }, () => bucket.take().then(() => Date.now() - start)));
+}
+
+describe("TokenBucket", () => {
+  it("grants a burst at once and spaces out the rest", async () => {
+    const granted = takeAll(new TokenBucket(2, 3), 5);
+    await vi.runAllTimersAsync();
+    expect(await granted).toEqual([0, 0, 0, 500, 1000]);
+  });
+
+  it("refills while idle, up to its capacity", async () => {
+    const bucket = new TokenBucket(1, 2);
+    await takeAll(bucket, 2);
+    vi.advanceTimersByTime(10_000);
+
+    const granted = takeAll(bucket, 3);
+    await vi.runAllTimersAsync();
+    expect(await granted).toEqual([0, 0, 1000]);
+  });
+
+  it("drops waiters whose signal is aborted without using their token", async () => {
+    const bucket = new TokenBucket(1, 1);
+    await bucket.take();
+    const controller = new AbortController();
+    const start = Date.now();
+    const aborted = bucket.take(controller.signal).catch((reason) => reason);
+    const next = bucket.take().then(() => Date.now() - start);
+
+    controller.abort("stop");
+    expect(await aborted).toBe("stop");
+    await vi.runAllTimersAsync();
+    expect(await next).toBe(1000);
+    await expect(bucket.take(controller.signal)).rejects.toBe("stop");
+  });
+
+  it("never waits with a rate of 0", async () => {
+    expect(await takeAll(new TokenBucket(0, 1), 20)).toEqual(Array(20).fill(0));
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { runJavaScriptInSandbox } from "../src/sandbox.js";
+
+const options = { timeoutMs: 1000, memoryMb: 64 };
+
+describe("runJavaScriptInSandbox", () => {
+  it("runs a function with arguments and collects its output", async () => {
+    const code = `function Z10001(a, b) { console.log("adding", a, b); return { sum: a + b, big: 2n ** 64n }; }`;
+    const result = await runJavaScriptInSandbox(code, "Z10001", [2, 3], options);
+    expect(result).toEqual(
+      expect.objectContaining({ ok: true, value: { sum: 5, big: 2n ** 64n }, logs: ["adding 2 3"] })
+    );
+  });
+
+  it("stops code that runs past the time limit", async () => {
+    const result = await runJavaScriptInSandbox("function Z10001() { for (;;) {} }", "Z10001", [], {
+      ...options,
+      timeoutMs: 100,
+    });
+    expect(result.ok).toBe(false);
+    expect(result.error).toMatch(/timed out/i);
+  });
+
+  it("keeps the host's globals out of reach", async () => {
+    const code = `function Z10001(value) {
+      const found = [typeof process, typeof require, typeof globalThis.process];
+      for (const start of [value, this, console.log, globalThis]) {
+        try {
+          found.push(typeof start.constructor.constructor("return process")());
+        } catch (error) {
+          found.push(error.name);
+        }
+      }
+      return found.join(",");
+    }`;
+    const result = await runJavaScriptInSandbox(code, "Z10001", [{ a: [1] }], options);
+    expect(result.ok).toBe(true);
+    expect(String(result.value).split(",")).toEqual(["undefined", "undefined", "undefined", ...Array(4).fill("EvalError")]);
+  });
+});
@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// 150 functions "f1" ... "f150" (Z10001 ... Z10150) of three shapes:
+// i % 3 = 0: (String) → String, 1: (Integer, Integer) → Integer, 2: (Typed list(String)) → String.
+// Function i has i % 4 testers and no implementations.
+const FUNCTION_COUNT = 150;
+// The fake API returns fewer results per page than asked for, to make more pages.
+const PAGE_SIZE = 10;
+
+const label = (text: string) => ({ Z1K1: "Z12", Z12K1: ["Z11", { Z1K1: "Z11", Z11K1: "Z1002", Z11K2: text }] });
+const argument = (zid: string, n: number, type: any) => ({ Z1K1: "Z17", Z17K1: type, Z17K2: `${zid}K${n}`, Z17K3: label(`arg${n}`) });
+const stringList = { Z1K1: "Z7", Z7K1: "Z881", Z881K1: "Z6" };
+
+function functionObject(i: number) {
+  const zid = `Z${10000 + i}`;
+  const shapes = [
+    { inputs: [argument(zid, 1, "Z6")], output: "Z6" },
+    { inputs: [argument(zid, 1, "Z16683"), argument(zid, 2, "Z16683")], output: "Z16683" },
+    { inputs: [argument(zid, 1, stringList)], output: "Z6" },
+  ];
+  const { inputs, output } = shapes[i % 3];
+  return {
+    Z1K1: "Z2",
+    Z2K1: { Z1K1: "Z6", Z6K1: zid },
+    Z2K2: { Z1K1: "Z8", Z8K1: ["Z17", ...inputs], Z8K2: output, Z8K3: ["Z20", ...Array(i % 4).fill("Z10999")], Z8K4: ["Z14"], Z8K5: zid },
+    Z2K3: label(`f${i}`),
+  };
+}
+
+const objects: Record<string, any> = {
+  Z1002: { Z1K1: "Z2", Z2K1: { Z1K1: "Z6", Z6K1: "Z1002" }, Z2K2: { Z1K1: "Z60", Z60K1: "en" }, Z2K3: label("English") },
+};
+for (let i = 1; i <= FUNCTION_COUNT; i++) objects[`Z${10000 + i}`] = functionObject(i);
+
+function fakeApi(params: Record<string, any>): any {
+  if (params.list === "wikilambdasearch_functions") {
+    const offset = Number(params.wikilambdasearch_functions_continue ?? 0);
+    const end = Math.min(offset + PAGE_SIZE, FUNCTION_COUNT);
+    const results = [];
+    for (let i = offset + 1; i <= end; i++) results.push({ page_title: `Z${10000 + i}` });
+    return {
+      query: { wikilambdasearch_functions: results },
+      ...(end < FUNCTION_COUNT ? { continue: { wikilambdasearch_functions_continue: end } } : {}),
+    };
+  }
+  if (params.action === "wikilambda_fetch") {
+    const found = params.zids.split("|").filter((zid: string) => objects[zid]);
+    return Object.fromEntries(found.map((zid: string) => [zid, { wikilambda_fetch: JSON.stringify(objects[zid]) }]));
+  }
+  throw new Error(`Unexpected request ${JSON.stringify(params)}`);
+}
+
+vi.mock("../src/http-client.js", () => ({
+  apiGet: vi.fn(async (params: Record<string, any>) => fakeApi(params)),
+  describeRequestError: (error: any) => String(error?.message ?? error),
+  WikifunctionsApiError: class extends Error {},
+}));
+
+const { initConfig } = await import("../src/config.js");
+const { apiGet } = await import("../src/http-client.js");
+const { zobjectCache } = await import("../src/wikifunctions-api.js");
+const { searchFunctions } = await import("../src/search.js");
+
+initConfig([], {});
+
+const searchRequests = () =>
+  vi.mocked(apiGet).mock.calls.filter(([params]) => params.list === "wikilambdasearch_functions").length;
+const ranks = (result: { matches: { rank: number }[] }) => result.matches.map((match) => match.rank);
+
+beforeEach(() => {
+  zobjectCache().clear();
+  vi.mocked(apiGet).mockClear();
+});
+
+describe("searchFunctions", () => {
+  it("pages through the results with a continuation token", async () => {
+    const first = await searchFunctions({ query: "f", limit: 3 });
+    expect(ranks(first)).toEqual([1, 2, 3]);
+    expect(first.matches[0]).toEqual(
+      expect.objectContaining({ zid: "Z10001", label: expect.objectContaining({ text: "f1" }), outputType: "Z16683" })
+    );
+    // The token is base64url-encoded JSON: the position within the first API page.
+    expect(JSON.parse(Buffer.from(first.continueToken!, "base64url").toString("utf8"))).toEqual({ s: 3, r: 3 });
+
+    const second = await searchFunctions({ query: "f", limit: 9, continueToken: first.continueToken });
+    expect(ranks(second)).toEqual([4, 5, 6, 7, 8, 9, 10, 11, 12]);
+    // Without filters a page ends where the fourth API page does.
+    const third = await searchFunctions({ query: "f", limit: 50, continueToken: second.continueToken });
+    expect(ranks(third)).toEqual(Array.from({ length: 38 }, (_, i) => i + 13));
+  });
+
+  it("rejects continuation tokens it did not issue", async () => {
+    await expect(searchFunctions({ query: "f", continueToken: "not a token" })).rejects.toThrow(
+      /Invalid continuation token/
+    );
+    const forged = Buffer.from(JSON.stringify({ page: 2 })).toString("base64url");
+    await expect(searchFunctions({ query: "f", continueToken: forged })).rejects.toThrow(/Invalid continuation token/);
+  });
+
+  it("filters by argument count, argument types and output type", async () => {
+    const integers = await searchFunctions({ query: "f", inputTypes: ["Z16683"], argumentCount: 2, limit: 4 });
+    expect(ranks(integers)).toEqual([1, 4, 7, 10]);
+
+    // Each wanted type needs an argument of its own.
+    const twoIntegers = await searchFunctions({ query: "f", inputTypes: ["Z16683", "Z16683"], limit: 2 });
+    expect(ranks(twoIntegers)).toEqual([1, 4]);
+
+    const lists = await searchFunctions({ query: "f", inputTypes: ["Z881(Z6)"], outputType: "Z6", limit: 2 });
+    expect(ranks(lists)).toEqual([2, 5]);
+    // A generic type function matches all of its instances.
+    const anyList = await searchFunctions({ query: "f", inputTypes: ["Z881"], limit: 2 });
+    expect(ranks(anyList)).toEqual([2, 5]);
+  });
+
+  it("reads at most four API pages per call", async () => {
+    const result = await searchFunctions({ query: "f", argumentCount: 5 });
+    expect(result.matches).toEqual([]);
+    expect(result.scanned).toBe(4 * PAGE_SIZE);
+    expect(searchRequests()).toBe(4);
+    expect(JSON.parse(Buffer.from(result.continueToken!, "base64url").toString("utf8"))).toEqual({
+      c: String(4 * PAGE_SIZE),
+      s: 0,
+      r: 4 * PAGE_SIZE,
+    });
+
+    // Continuing goes on from there until the last page.
+    let token = result.continueToken;
+    let pages = 4;
+    while (token) {
+      vi.mocked(apiGet).mockClear();
+      const next = await searchFunctions({ query: "f", argumentCount: 5, continueToken: token });
+      pages += searchRequests();
+      token = next.continueToken;
+    }
+    expect(pages).toBe(FUNCTION_COUNT / PAGE_SIZE);
+  });
+
+  it("sorts the page by connected testers or implementations, keeping relevance for ties", async () => {
+    expect(ranks(await searchFunctions({ query: "f", limit: 3, sort: "testers" }))).toEqual([3, 2, 1]);
+    expect(ranks(await searchFunctions({ query: "f", limit: 3, sort: "implementations" }))).toEqual([1, 2, 3]);
+  });
+});
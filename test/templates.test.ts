@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const label = (text: string) => ({ Z1K1: "Z12", Z12K1: ["Z11", { Z1K1: "Z11", Z11K1: "Z1002", Z11K2: text }] });
+const key = (zid: string, type: string, name: string) => ({ Z1K1: "Z3", Z3K1: type, Z3K2: zid, Z3K3: label(name) });
+const typeDefinition = (zid: string, name: string, keys: any[]) => ({
+  Z1K1: "Z2",
+  Z2K1: { Z1K1: "Z6", Z6K1: zid },
+  Z2K2: { Z1K1: "Z4", Z4K1: zid, Z4K2: ["Z3", ...keys] },
+  Z2K3: label(name),
+});
+
+const objects: Record<string, any> = {
+  Z1002: { Z1K1: "Z2", Z2K1: { Z1K1: "Z6", Z6K1: "Z1002" }, Z2K2: { Z1K1: "Z60", Z60K1: "en" }, Z2K3: label("English") },
+  Z990002: typeDefinition("Z990002", "Point", [key("Z990002K1", "Z16683", "x"), key("Z990002K2", "Z16683", "y")]),
+  Z990003: typeDefinition("Z990003", "Tag", [key("Z990003K1", "Z6", "text")]),
+};
+
+vi.mock("../src/wikifunctions-api.js", () => ({
+  getMultipleDetails: vi.fn(async (zids: string[]) =>
+    Object.fromEntries(zids.filter((zid) => objects[zid]).map((zid) => [zid, objects[zid]]))
+  ),
+}));
+
+const { getMultipleDetails } = await import("../src/wikifunctions-api.js");
+const { ArgumentValidationError, transformTemplateToFunctionCall } = await import("../src/templates.js");
+
+const argument = (name: string, requiredType: string, names: Record<string, string> = { en: name }) => ({
+  name,
+  names,
+  required_type: requiredType,
+  value: `<Provide a value for '${name}'>`,
+});
+
+const template = {
+  _function_name: "describe",
+  _output_type: "Z6",
+  Z1K1: "Z7",
+  Z7K1: "Z990001",
+  Z990001K1: argument("word", "Z6 (String)", { en: "word", de: "Wort" }),
+  Z990001K2: argument("count", "Z16683 (Integer)"),
+  Z990001K3: argument("flags", "Z881(Z40) (Typed list(Boolean))"),
+};
+
+const compositeTemplate = {
+  Z1K1: "Z7",
+  Z7K1: "Z990010",
+  Z990010K1: argument("point", "Z990002 (Point)"),
+  Z990010K2: argument("tag", "Z990003 (Tag)"),
+};
+
+async function problemsOf(promise: Promise<unknown>) {
+  try {
+    await promise;
+  } catch (error) {
+    expect(error).toBeInstanceOf(ArgumentValidationError);
+    return (error as InstanceType<typeof ArgumentValidationError>).problems;
+  }
+  throw new Error("Expected the values to be rejected.");
+}
+
+beforeEach(() => {
+  vi.mocked(getMultipleDetails).mockClear();
+});
+
+describe("transformTemplateToFunctionCall", () => {
+  it("builds the call from values given by key or by name in any language", async () => {
+    const call = await transformTemplateToFunctionCall(template, { Wort: "hi", count: -3, Z990001K3: [true] });
+    expect(call).toEqual({
+      Z1K1: "Z7",
+      Z7K1: "Z990001",
+      Z990001K1: { Z1K1: "Z6", Z6K1: "hi" },
+      Z990001K2: expect.objectContaining({ Z1K1: "Z16683" }),
+      Z990001K3: ["Z40", { Z1K1: "Z40", Z40K1: "Z41" }],
+    });
+    // Native types need no definitions.
+    expect(getMultipleDetails).not.toHaveBeenCalled();
+  });
+
+  it("reports missing values", async () => {
+    const problems = await problemsOf(transformTemplateToFunctionCall(template, { word: "hi", flags: [] }));
+    expect(problems).toEqual([
+      expect.objectContaining({ argument: "Z990001K2", kind: "missing", expectedType: "Z16683" }),
+    ]);
+  });
+
+  it("reports values given more than once", async () => {
+    const problems = await problemsOf(
+      transformTemplateToFunctionCall(template, { word: "a", Wort: "b", count: 1, flags: [] })
+    );
+    expect(problems).toEqual([expect.objectContaining({ argument: "Z990001K1", kind: "duplicate" })]);
+    expect(problems[0].message).toMatch(/'word' and 'Wort'/);
+  });
+
+  it("reports unknown arguments with the closest names", async () => {
+    const problems = await problemsOf(
+      transformTemplateToFunctionCall(template, { word: "a", cuont: 1, flags: [], zzzzzzzz: 2 })
+    );
+    expect(problems).toContainEqual(
+      expect.objectContaining({ argument: "cuont", kind: "unknown_argument", suggestions: ["count"] })
+    );
+    const unrelated = problems.find((problem) => problem.argument === "zzzzzzzz");
+    expect(unrelated?.suggestions).toEqual([]);
+    expect(unrelated?.message).toMatch(/the arguments are 'word' \(Z990001K1\)/);
+  });
+
+  it("reports every invalid value together", async () => {
+    const problems = await problemsOf(
+      transformTemplateToFunctionCall(template, { word: { a: 1 }, count: 1.5, flags: [true, "maybe"] })
+    );
+    expect(problems.map((problem) => [problem.argument, problem.kind])).toEqual([
+      ["Z990001K1", "invalid_value"],
+      ["Z990001K2", "invalid_value"],
+      ["Z990001K3", "invalid_value"],
+    ]);
+    expect(problems[2].message).toMatch(/Item 2 of the list/);
+  });
+
+  it("reports ZObject values of the wrong type", async () => {
+    const problems = await problemsOf(
+      transformTemplateToFunctionCall(template, { word: { Z1K1: "Z40", Z40K1: "Z41" }, count: 1, flags: [] })
+    );
+    expect(problems).toEqual([expect.objectContaining({ argument: "Z990001K1", kind: "invalid_value" })]);
+    expect(problems[0].message).toMatch(/is a ZObject of type Z40, but Z6 is required/);
+  });
+
+  it("loads the definitions of all composite types in one batch", async () => {
+    const call = await transformTemplateToFunctionCall(compositeTemplate, {
+      point: { x: 1, y: 2 },
+      tag: { text: "home" },
+    });
+    expect(call.Z990010K1).toEqual(expect.objectContaining({ Z1K1: "Z990002" }));
+    expect(call.Z990010K2).toEqual({ Z1K1: "Z990003", Z990003K1: { Z1K1: "Z6", Z6K1: "home" } });
+    const typeFetches = vi
+      .mocked(getMultipleDetails)
+      .mock.calls.filter(([zids]) => zids.some((zid) => zid.startsWith("Z99000")));
+    expect(typeFetches).toEqual([[["Z990002", "Z990003"]]]);
+  });
+
+  it("reports invalid values of composite types", async () => {
+    const problems = await problemsOf(
+      transformTemplateToFunctionCall(compositeTemplate, { point: { x: 1 }, tag: { text: "a", colour: "red" } })
+    );
+    expect(problems.map((problem) => problem.message)).toEqual([
+      expect.stringMatching(/Missing key 'y' \(Z990002K2\) for Point \(Z990002\)/),
+      expect.stringMatching(/Unknown keys 'colour' for Tag \(Z990003\)/),
+    ]);
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, expect, it } from "vitest";
+import { convertValueToZObject, convertZObjectToValue, markTypeLoaded } from "../src/type-converter.js";
+import { normalize } from "../src/zobject.js";
+
+const roundTrip = (value: unknown, type: string) => convertZObjectToValue(convertValueToZObject(value, type));
+
+describe("Boolean (Z40)", () => {
+  it("converts both ways", () => {
+    expect(convertValueToZObject(true, "Z40")).toEqual({ Z1K1: "Z40", Z40K1: "Z41" });
+    expect(convertValueToZObject("False", "Z40")).toEqual({ Z1K1: "Z40", Z40K1: "Z42" });
+    expect(roundTrip(true, "Z40")).toBe(true);
+    expect(roundTrip(false, "Z40")).toBe(false);
+    expect(convertZObjectToValue(normalize({ Z1K1: "Z40", Z40K1: "Z41" }))).toBe(true);
+  });
+
+  it("rejects other values", () => {
+    expect(() => convertValueToZObject(1, "Z40")).toThrow(/Boolean \(Z40\)/);
+    expect(() => convertValueToZObject("yes", "Z40")).toThrow(/expected true or false/);
+  });
+});
+
+describe("String (Z6) and reference (Z9)", () => {
+  it("converts both ways", () => {
+    expect(roundTrip("hello", "Z6")).toBe("hello");
+    expect(roundTrip("Z801", "Z6")).toBe("Z801");
+    expect(convertValueToZObject(5, "Z6")).toEqual({ Z1K1: "Z6", Z6K1: "5" });
+    expect(convertValueToZObject("Z801", "Z9")).toEqual({ Z1K1: "Z9", Z9K1: "Z801" });
+    expect(roundTrip("Z801", "Z9")).toBe("Z801");
+  });
+
+  it("rejects other values", () => {
+    expect(() => convertValueToZObject(null, "Z6")).toThrow(/String \(Z6\)/);
+    expect(() => convertValueToZObject({ a: 1 }, "Z6")).toThrow(/String \(Z6\)/);
+    expect(() => convertValueToZObject("801", "Z9")).toThrow(/expected a ZID/);
+  });
+});
+
+describe("Natural number (Z13518)", () => {
+  it("converts both ways", () => {
+    expect(convertValueToZObject(12, "Z13518")).toEqual({ Z1K1: "Z13518", Z13518K1: { Z1K1: "Z6", Z6K1: "12" } });
+    expect(roundTrip("12", "Z13518")).toBe(12n);
+    expect(roundTrip("123456789012345678901234567890", "Z13518")).toBe(123456789012345678901234567890n);
+  });
+
+  it("rejects negative, fractional and inexact numbers", () => {
+    expect(() => convertValueToZObject(-1, "Z13518")).toThrow(/negative/);
+    expect(() => convertValueToZObject(1.5, "Z13518")).toThrow(/non-integer/);
+    expect(() => convertValueToZObject(2 ** 60, "Z13518")).toThrow(/pass it as a string/);
+    expect(() => convertValueToZObject("1e3", "Z13518")).toThrow(/non-negative integer/);
+  });
+});
+
+describe("Natural language (Z60) and Monolingual text (Z11)", () => {
+  it("converts both ways", () => {
+    expect(roundTrip("de", "Z60")).toBe("de");
+    expect(roundTrip({ language: "de", text: "Hallo" }, "Z11")).toEqual({ language: "de", text: "Hallo" });
+    expect(convertValueToZObject({ language: "Z1002", text: "Hi" }, "Z11")).toEqual({
+      Z1K1: "Z11",
+      Z11K1: "Z1002",
+      Z11K2: "Hi",
+    });
+    expect(roundTrip({ language: "Z1002", text: "Hi" }, "Z11")).toEqual({ language: "Z1002", text: "Hi" });
+  });
+
+  it("rejects other values", () => {
+    expect(() => convertValueToZObject("", "Z60")).toThrow(/Natural language \(Z60\)/);
+    expect(() => convertValueToZObject("Hallo", "Z11")).toThrow(/Monolingual text \(Z11\)/);
+    expect(() => convertValueToZObject({ language: 5, text: "Hallo" }, "Z11")).toThrow(/Natural language/);
+  });
+});
+
+describe("Gregorian calendar date (Z20420)", () => {
+  it("converts both ways", () => {
+    expect(roundTrip("2024-05-01", "Z20420")).toBe("2024-05-01");
+    expect(roundTrip({ year: 2024, month: "April", day: 30 }, "Z20420")).toBe("2024-04-30");
+    expect(roundTrip("-44-03-15", "Z20420")).toBe("-0044-03-15");
+    expect(roundTrip(-44, "Z20159")).toBe(-44);
+    // Months are references to their instances; expanded instances read back as numbers.
+    expect(convertValueToZObject("march", "Z16098")).toBe("Z16103");
+    expect(convertZObjectToValue({ Z1K1: "Z16098", Z16098K1: "Z16103" })).toBe(3);
+  });
+
+  it("accepts leap days in leap years only", () => {
+    expect(roundTrip("2024-02-29", "Z20420")).toBe("2024-02-29");
+    expect(roundTrip("2000-02-29", "Z20420")).toBe("2000-02-29");
+    // 1 BCE is a leap year in the proleptic Gregorian calendar.
+    expect(roundTrip("-1-02-29", "Z20420")).toBe("-0001-02-29");
+    expect(() => convertValueToZObject("2023-02-29", "Z20420")).toThrow(/has 28 days/);
+    expect(() => convertValueToZObject("1900-02-29", "Z20420")).toThrow(/has 28 days/);
+  });
+
+  it("rejects days beyond the end of the month", () => {
+    expect(() => convertValueToZObject("2024-02-31", "Z20420")).toThrow(/month 2 of 2024 has 29 days/);
+    expect(() => convertValueToZObject("2023-04-31", "Z20420")).toThrow(/month 4 of 2023 has 30 days/);
+    expect(() => convertValueToZObject("2023-01-32", "Z20420")).toThrow(/has 31 days/);
+    expect(() => convertValueToZObject({ year: 2023, month: 1, day: 0 }, "Z20420")).toThrow(/day 0/);
+  });
+
+  it("rejects invalid years, months and formats", () => {
+    expect(() => convertValueToZObject("0-01-01", "Z20420")).toThrow(/Gregorian year/);
+    expect(() => convertValueToZObject("2024-13-01", "Z20420")).toThrow(/Gregorian calendar month/);
+    expect(() => convertValueToZObject("Smarch", "Z16098")).toThrow(/English month name/);
+    expect(() => convertValueToZObject("01.05.2024", "Z20420")).toThrow(/expected "YYYY-MM-DD"/);
+  });
+});
+
+describe("Integer (Z16683)", () => {
+  it("converts both ways", () => {
+    expect(convertValueToZObject(-7, "Z16683")).toEqual({
+      Z1K1: "Z16683",
+      Z16683K1: { Z1K1: "Z16659", Z16659K1: { Z1K1: "Z9", Z9K1: "Z16662" } },
+      Z16683K2: { Z1K1: "Z13518", Z13518K1: { Z1K1: "Z6", Z6K1: "7" } },
+    });
+    expect(roundTrip(-7, "Z16683")).toBe(-7n);
+    expect(roundTrip(0, "Z16683")).toBe(0n);
+    expect(roundTrip("+42", "Z16683")).toBe(42n);
+    expect(roundTrip("-98765432109876543210", "Z16683")).toBe(-98765432109876543210n);
+  });
+
+  it("rejects fractional, inexact and non-numeric values", () => {
+    expect(() => convertValueToZObject(1.5, "Z16683")).toThrow(/non-integer/);
+    expect(() => convertValueToZObject(2 ** 60, "Z16683")).toThrow(/pass it as a string/);
+    expect(() => convertValueToZObject("12a", "Z16683")).toThrow(/expected a whole number/);
+    expect(() => convertValueToZObject(true, "Z16683")).toThrow(/Integer \(Z16683\)/);
+  });
+});
+
+describe("float64 (Z20838)", () => {
+  it("converts finite numbers both ways", () => {
+    for (const value of [0.5, -2.5, 0.1, 1e300, 5e-324, 12]) {
+      expect(roundTrip(value, "Z20838")).toBe(value);
+    }
+    expect(roundTrip("3.25", "Z20838")).toBe(3.25);
+  });
+
+  it("converts zeros and special values both ways", () => {
+    expect(roundTrip(0, "Z20838")).toBe(0);
+    expect(Object.is(roundTrip(-0, "Z20838"), -0)).toBe(true);
+    expect(roundTrip("NaN", "Z20838")).toBeNaN();
+    expect(roundTrip("Infinity", "Z20838")).toBe(Number.POSITIVE_INFINITY);
+    expect(roundTrip(Number.NEGATIVE_INFINITY, "Z20838")).toBe(Number.NEGATIVE_INFINITY);
+  });
+
+  it("rejects non-numeric values", () => {
+    expect(() => convertValueToZObject("abc", "Z20838")).toThrow(/float64 \(Z20838\)/);
+    expect(() => convertValueToZObject("", "Z20838")).toThrow(/expected a number/);
+    expect(() => convertValueToZObject(null, "Z20838")).toThrow(/float64/);
+  });
+});
+
+describe("Typed lists, pairs and maps", () => {
+  const listOf = (itemType: any) => ({ Z1K1: "Z7", Z7K1: "Z881", Z881K1: itemType });
+  const pairOf = (first: any, second: any) => ({ Z1K1: "Z7", Z7K1: "Z882", Z882K1: first, Z882K2: second });
+  const mapOf = (key: any, value: any) => ({ Z1K1: "Z7", Z7K1: "Z883", Z883K1: key, Z883K2: value });
+
+  it("convert lists to benjamin arrays and back", () => {
+    expect(convertValueToZObject(["a", "b"], listOf("Z6"))).toEqual([
+      "Z6",
+      { Z1K1: "Z6", Z6K1: "a" },
+      { Z1K1: "Z6", Z6K1: "b" },
+    ]);
+    expect(convertZObjectToValue(convertValueToZObject([1, -2], listOf("Z16683")))).toEqual([1n, -2n]);
+    expect(convertZObjectToValue(convertValueToZObject([], listOf("Z40")))).toEqual([]);
+    expect(convertZObjectToValue(convertValueToZObject([[true], []], listOf(listOf("Z40"))))).toEqual([[true], []]);
+  });
+
+  it("read lists in normal form", () => {
+    expect(convertZObjectToValue(normalize(["Z6", "a", "b"]))).toEqual(["a", "b"]);
+  });
+
+  it("convert pairs from arrays or K1/K2 objects and back", () => {
+    const type = pairOf("Z6", "Z40");
+    expect(convertValueToZObject(["a", true], type)).toEqual({
+      Z1K1: type,
+      K1: { Z1K1: "Z6", Z6K1: "a" },
+      K2: { Z1K1: "Z40", Z40K1: "Z41" },
+    });
+    expect(convertZObjectToValue(convertValueToZObject(["a", true], type))).toEqual(["a", true]);
+    expect(convertZObjectToValue(convertValueToZObject({ K1: "b", K2: false }, type))).toEqual(["b", false]);
+  });
+
+  it("convert String-keyed maps to objects and other maps to entries", () => {
+    const stringMap = mapOf("Z6", "Z16683");
+    const zobject = convertValueToZObject({ a: 1, b: 2 }, stringMap);
+    expect(zobject.K1[0]).toEqual(pairOf("Z6", "Z16683"));
+    expect(convertZObjectToValue(zobject)).toEqual({ a: 1n, b: 2n });
+    expect(convertZObjectToValue(convertValueToZObject(new Map([["c", 3]]), stringMap))).toEqual({ c: 3n });
+
+    const integerMap = mapOf("Z16683", "Z6");
+    expect(convertZObjectToValue(convertValueToZObject([[1, "one"]], integerMap))).toEqual([[1n, "one"]]);
+  });
+
+  it("keep items that are already ZObjects", () => {
+    const item = { Z1K1: "Z11", Z11K1: "Z1002", Z11K2: "hi" };
+    expect(convertValueToZObject([item], listOf("Z11"))).toEqual(["Z11", item]);
+  });
+
+  it("reject values of the wrong shape, naming the failing item", () => {
+    expect(() => convertValueToZObject("a", listOf("Z6"))).toThrow(/Expected an array for a typed list of Z6/);
+    expect(() => convertValueToZObject([1, "x"], listOf("Z16683"))).toThrow(/Item 2 of the list/);
+    expect(() => convertValueToZObject(["a"], pairOf("Z6", "Z6"))).toThrow(/two-element array/);
+    expect(() => convertValueToZObject([["a"]], mapOf("Z6", "Z6"))).toThrow(/\[key, value\] array/);
+    expect(() => convertValueToZObject(5, mapOf("Z6", "Z6"))).toThrow(/typed map from Z6 to Z6/);
+  });
+});
+
+describe("Types without a converter", () => {
+  it("are refused until their definition is loaded", () => {
+    expect(() => convertValueToZObject("x", "Z990001")).toThrow(/Type Z990001 is not loaded; call loadTypeConverters/);
+  });
+
+  it("take references to their instances once loaded without keys", () => {
+    markTypeLoaded("Z990002");
+    expect(convertValueToZObject("Z990003", "Z990002")).toBe("Z990003");
+    expect(() => convertValueToZObject("x", "Z990002")).toThrow(/give the ZID of an instance/);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from "vitest";
+
+const label = (text: string) => ({ Z1K1: "Z12", Z12K1: ["Z11", { Z1K1: "Z11", Z11K1: "Z1002", Z11K2: text }] });
+const key = (zid: string, type: string, name: string) => ({ Z1K1: "Z3", Z3K1: type, Z3K2: zid, Z3K3: label(name) });
+const typeDefinition = (zid: string, name: string, keys: any[]) => ({
+  Z1K1: "Z2",
+  Z2K1: { Z1K1: "Z6", Z6K1: zid },
+  Z2K2: { Z1K1: "Z4", Z4K1: zid, Z4K2: ["Z3", ...keys], Z4K3: "Z990099" },
+  Z2K3: label(name),
+});
+
+const objects: Record<string, any> = {
+  Z1002: { Z1K1: "Z2", Z2K1: { Z1K1: "Z6", Z6K1: "Z1002" }, Z2K2: { Z1K1: "Z60", Z60K1: "en" }, Z2K3: label("English") },
+  // A type without keys: its instances are existing objects, referenced by ZID.
+  Z990004: typeDefinition("Z990004", "Colour", []),
+  Z990005: typeDefinition("Z990005", "Pen", [key("Z990005K1", "Z990004", "colour")]),
+  Z990006: typeDefinition("Z990006", "Note", [key("Z990006K1", "Z6", "text"), key("Z990006K2", "Z40", "done")]),
+};
+
+vi.mock("../src/wikifunctions-api.js", () => ({
+  getMultipleDetails: vi.fn(async (zids: string[]) =>
+    Object.fromEntries(zids.filter((zid) => objects[zid]).map((zid) => [zid, objects[zid]]))
+  ),
+}));
+
+const { getMultipleDetails } = await import("../src/wikifunctions-api.js");
+const { convertValueToZObject } = await import("../src/type-converter.js");
+const { buildExample, describeType, loadTypeConverters, resetTypeSchemas } = await import("../src/type-schema.js");
+
+describe("resetTypeSchemas", () => {
+  it("forgets loaded definitions so they are fetched again", async () => {
+    await loadTypeConverters("Z990006");
+    expect(convertValueToZObject({ text: "a", done: false }, "Z990006")).toEqual(
+      expect.objectContaining({ Z1K1: "Z990006" })
+    );
+
+    resetTypeSchemas(["Z990006"]);
+    expect(() => convertValueToZObject({ text: "a", done: false }, "Z990006")).toThrow(/is not loaded/);
+    // Native converters stay.
+    expect(convertValueToZObject(true, "Z40")).toEqual({ Z1K1: "Z40", Z40K1: "Z41" });
+
+    vi.mocked(getMultipleDetails).mockClear();
+    await loadTypeConverters("Z990006");
+    expect(getMultipleDetails).toHaveBeenCalledWith(["Z990006"]);
+    expect(convertValueToZObject({ text: "a", done: false }, "Z990006")).toEqual(
+      expect.objectContaining({ Z1K1: "Z990006" })
+    );
+  });
+});
+
+describe("loadTypeConverters", () => {
+  it("reads a definition again when the fetched object changed", async () => {
+    objects.Z990007 = typeDefinition("Z990007", "Label", [key("Z990007K1", "Z6", "text")]);
+    await loadTypeConverters("Z990007");
+    expect(convertValueToZObject({ text: "a" }, "Z990007")).toEqual(expect.objectContaining({ Z1K1: "Z990007" }));
+
+    objects.Z990007 = typeDefinition("Z990007", "Label", [key("Z990007K1", "Z6", "text"), key("Z990007K2", "Z6", "lang")]);
+    await loadTypeConverters("Z990007");
+    expect(() => convertValueToZObject({ text: "a" }, "Z990007")).toThrow(/Missing key 'lang'/);
+  });
+});
+
+describe("describeType", () => {
+  it("describes a type without keys", async () => {
+    expect(await describeType("Z990004")).toEqual(
+      expect.objectContaining({ zid: "Z990004", label: "Colour", native: false, keys: [], validator: "Z990099" })
+    );
+  });
+
+  it("returns null for unknown ZIDs", async () => {
+    expect(await describeType("Z990098")).toBeNull();
+  });
+});
+
+describe("buildExample", () => {
+  it("builds composite values from their keys", async () => {
+    expect(await buildExample("Z990006")).toEqual({
+      json: { text: "text", done: true },
+      zobject: { Z1K1: "Z990006", Z990006K1: "text", Z990006K2: { Z1K1: "Z40", Z40K1: "Z41" } },
+    });
+  });
+
+  it("gives no example for types without keys, alone or as a key type", async () => {
+    expect(await buildExample("Z990004")).toBeNull();
+    expect(await buildExample("Z990005")).toBeNull();
+  });
+
+  it("builds lists of types with examples", async () => {
+    const example = await buildExample({ Z1K1: "Z7", Z7K1: "Z881", Z881K1: "Z990006" });
+    expect(example?.json).toEqual([{ text: "text", done: true }]);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { canonicalize, listItems, normalize, terminalValue } from "../src/zobject.js";
+
+const ref = (zid: string) => ({ Z1K1: "Z9", Z9K1: zid });
+const str = (text: string) => ({ Z1K1: "Z6", Z6K1: text });
+const listType = (itemType: any) => ({ Z1K1: ref("Z7"), Z7K1: ref("Z881"), Z881K1: itemType });
+
+// Monolingual text in both forms.
+const textCanonical = { Z1K1: "Z11", Z11K1: "Z1002", Z11K2: "hello" };
+const textNormal = { Z1K1: ref("Z11"), Z11K1: ref("Z1002"), Z11K2: str("hello") };
+
+describe("canonicalize and normalize", () => {
+  it("convert terminals", () => {
+    expect(normalize("Z801")).toEqual(ref("Z801"));
+    expect(normalize("hello")).toEqual(str("hello"));
+    expect(canonicalize(ref("Z801"))).toBe("Z801");
+    expect(canonicalize(str("hello"))).toBe("hello");
+  });
+
+  it("convert plain objects both ways", () => {
+    expect(normalize(textCanonical)).toEqual(textNormal);
+    expect(canonicalize(textNormal)).toEqual(textCanonical);
+  });
+
+  it("keep strings that look like ZIDs as Z6 objects", () => {
+    const canonical = { Z1K1: "Z11", Z11K1: "Z1002", Z11K2: { Z1K1: "Z6", Z6K1: "Z801" } };
+    const normal = { Z1K1: ref("Z11"), Z11K1: ref("Z1002"), Z11K2: str("Z801") };
+    expect(normalize(canonical)).toEqual(normal);
+    expect(canonicalize(normal)).toEqual(canonical);
+    expect(canonicalize(str("Z801"))).toEqual({ Z1K1: "Z6", Z6K1: "Z801" });
+    // Strings that only start like a ZID are plain strings.
+    expect(canonicalize(str("Z801 is if"))).toBe("Z801 is if");
+    expect(canonicalize(str("Z0"))).toBe("Z0");
+  });
+
+  it("turn benjamin arrays into linked list cells and back", () => {
+    const canonical = ["Z6", "a", "Z801"];
+    const normal = {
+      Z1K1: listType(ref("Z6")),
+      K1: str("a"),
+      K2: { Z1K1: listType(ref("Z6")), K1: ref("Z801"), K2: { Z1K1: listType(ref("Z6")) } },
+    };
+    expect(normalize(canonical)).toEqual(normal);
+    expect(canonicalize(normal)).toEqual(canonical);
+  });
+
+  it("handle empty lists and lists without an item type", () => {
+    expect(canonicalize(normalize(["Z6"]))).toEqual(["Z6"]);
+    expect(normalize([])).toEqual({ Z1K1: listType(ref("Z1")) });
+    expect(canonicalize(normalize([]))).toEqual(["Z1"]);
+  });
+
+  it("handle nested lists with generic item types", () => {
+    const canonical = [{ Z1K1: "Z7", Z7K1: "Z881", Z881K1: "Z6" }, ["Z6", "a"], ["Z6"]];
+    expect(canonicalize(normalize(canonical))).toEqual(canonical);
+    expect(listItems(normalize(canonical))).toEqual([["Z6", "a"], ["Z6"]]);
+  });
+
+  it("follow references nested in calls and argument references", () => {
+    const canonical = {
+      Z1K1: "Z7",
+      Z7K1: "Z802",
+      Z802K1: { Z1K1: "Z7", Z7K1: "Z844", Z844K1: { Z1K1: "Z18", Z18K1: "Z10000K1" }, Z844K2: "Z41" },
+      Z802K2: ["Z11", textCanonical],
+      Z802K3: { Z1K1: "Z6", Z6K1: "Z41" },
+    };
+    const normal = normalize(canonical);
+    expect(normal.Z802K1.Z844K1).toEqual({ Z1K1: ref("Z18"), Z18K1: str("Z10000K1") });
+    expect(normal.Z802K1.Z844K2).toEqual(ref("Z41"));
+    expect(normal.Z802K3).toEqual(str("Z41"));
+    expect(canonicalize(normal)).toEqual(canonical);
+  });
+
+  it("are idempotent", () => {
+    const canonical = { Z1K1: "Z7", Z7K1: "Z10000", Z10000K1: ["Z6", "a", { Z1K1: "Z6", Z6K1: "Z6" }] };
+    expect(canonicalize(canonical)).toEqual(canonical);
+    const normal = normalize(canonical);
+    expect(normalize(normal)).toEqual(normal);
+  });
+
+  it("leave other values alone", () => {
+    expect(canonicalize(null)).toBeNull();
+    expect(normalize(5)).toBe(5);
+    expect(canonicalize(true)).toBe(true);
+  });
+});
+
+describe("terminalValue", () => {
+  it("unwraps Z6 and Z9 in either form", () => {
+    expect(terminalValue("Z801")).toBe("Z801");
+    expect(terminalValue(ref("Z801"))).toBe("Z801");
+    expect(terminalValue({ Z1K1: "Z9", Z9K1: str("Z801") })).toBe("Z801");
+    expect(terminalValue(textCanonical)).toBe(textCanonical);
+  });
+});